@@ -0,0 +1,166 @@
+// A street address split into its parts, in the canonical form used for matching
+export interface ParsedAddress {
+  // e.g. 123 or 123A
+  civicNumber: string;
+  // e.g. MAIN ST or RUE SAINT-DENIS
+  street: string;
+  // Apartment or suite, e.g. 4 or 2B
+  unit: string | null;
+  // Full six-character postal code, e.g. B3H4R2
+  postalCode: string | null;
+}
+
+// Street types in the abbreviated form Canada Post uses
+export const STREET_TYPES: Record<string, string> = {
+  street: 'ST',
+  st: 'ST',
+  avenue: 'AVE',
+  ave: 'AVE',
+  av: 'AVE',
+  road: 'RD',
+  rd: 'RD',
+  drive: 'DR',
+  dr: 'DR',
+  boulevard: 'BLVD',
+  blvd: 'BLVD',
+  boul: 'BLVD',
+  crescent: 'CRES',
+  cres: 'CRES',
+  court: 'CRT',
+  crt: 'CRT',
+  ct: 'CRT',
+  lane: 'LANE',
+  ln: 'LANE',
+  place: 'PL',
+  pl: 'PL',
+  terrace: 'TERR',
+  terr: 'TERR',
+  way: 'WAY',
+  row: 'ROW',
+  parkway: 'PKY',
+  pky: 'PKY',
+  highway: 'HWY',
+  hwy: 'HWY',
+  circle: 'CIR',
+  cir: 'CIR',
+  trail: 'TRAIL',
+  trl: 'TRAIL',
+  close: 'CLOSE',
+  gate: 'GATE',
+  grove: 'GROVE',
+  heights: 'HTS',
+  hts: 'HTS',
+  square: 'SQ',
+  sq: 'SQ',
+  mews: 'MEWS',
+  // French street types, which come before the name
+  rue: 'RUE',
+  chemin: 'CH',
+  ch: 'CH',
+  rang: 'RANG',
+  montee: 'MONTEE',
+  cote: 'COTE',
+  route: 'RTE',
+  rte: 'RTE',
+  ruelle: 'RUELLE'
+};
+
+// Directions at the end of a street name, e.g. "King St West" or "Rue Sherbrooke Est"
+const DIRECTIONS: Record<string, string> = {
+  north: 'N',
+  south: 'S',
+  east: 'E',
+  west: 'W',
+  nord: 'N',
+  sud: 'S',
+  est: 'E',
+  ouest: 'O'
+};
+
+// Words that introduce a unit number, e.g. "Unit 4", "Apt. 2B", "Suite 200", "app 3"
+const UNIT_PATTERN = /(?:^|[\s,])(?:unit|apt|apartment|suite|ste|app|appartement|logement)\.?\s*#?\s*([0-9]+[a-z]?|[a-z])\b|(?:^|[\s,])#\s*([0-9]+[a-z]?)\b/i;
+
+// A unit number before the civic number, e.g. "4-123 Main St"
+const UNIT_PREFIX_PATTERN = /^([0-9]+[a-z]?)\s*-\s*(?=\d)/i;
+
+// The civic number at the start of the street part, e.g. "123", "123A" or "123 1/2"
+const CIVIC_NUMBER_PATTERN = /^(\d{1,6}[a-z]?)(?:\s+1\/2)?\s+(.+)$/i;
+
+// A Canadian postal code, with or without the space, e.g. B3H 4R2
+const POSTAL_CODE_PATTERN = /\b([ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z])\s?(\d[ABCEGHJ-NPRSTV-Z]\d)\b/i;
+
+// Longer "streets" are sentences from a title or subtitle rather than addresses
+const MAX_STREET_WORDS = 6;
+
+/**
+ * Parses a free-text street address such as "123 Main Street, Unit 4" or "4-123 main st. B3H 4R2"
+ * into its civic number, street, unit and postal code. The street is uppercased, without accents or
+ * punctuation other than hyphens, with its type and direction abbreviated as Canada Post does.
+ * Text that doesn't look like an address, such as "2 beds · 1 bath", isn't parsed: the street must
+ * have a recognised street type.
+ * @param address The address as listed
+ * @param postalCode The listing's postal code, used if the address has none
+ * @returns The parsed address, or null if it isn't one
+ */
+export function parseAddress(address: string | null | undefined, postalCode?: string | null): ParsedAddress | null {
+  let text = (address || '').normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim();
+  if (!/\d/.test(text)) {
+    return null;
+  }
+
+  const postalMatch = text.match(POSTAL_CODE_PATTERN) || (postalCode || '').match(POSTAL_CODE_PATTERN);
+  const parsedPostalCode = postalMatch ? `${postalMatch[1]}${postalMatch[2]}`.toUpperCase() : null;
+  text = text.replace(POSTAL_CODE_PATTERN, ' ');
+
+  let unit: string | null = null;
+  const unitMatch = text.match(UNIT_PATTERN);
+  if (unitMatch) {
+    unit = (unitMatch[1] || unitMatch[2]).toUpperCase();
+    text = text.replace(UNIT_PATTERN, ' ');
+  }
+
+  // Only the part with the civic number is the street; the rest is city, province and the like
+  for (const part of text.split(',')) {
+    let streetPart = part.trim();
+    const prefixMatch = streetPart.match(UNIT_PREFIX_PATTERN);
+    if (prefixMatch) {
+      unit = unit || prefixMatch[1].toUpperCase();
+      streetPart = streetPart.substring(prefixMatch[0].length);
+    }
+
+    const civicMatch = streetPart.match(CIVIC_NUMBER_PATTERN);
+    if (!civicMatch) continue;
+
+    const words = civicMatch[2]
+      .replace(/['’.]/g, '')
+      .replace(/[^a-z0-9\s-]/gi, ' ')
+      .split(/\s+/)
+      .filter(Boolean)
+      .map((word) => word.toLowerCase());
+    if (words.length < 2 || words.length > MAX_STREET_WORDS) continue;
+
+    // English street types end the street (before any direction), French ones start it
+    const directionIndex = words.length > 2 && DIRECTIONS[words[words.length - 1]] ? words.length - 1 : words.length;
+    const typeIndex = STREET_TYPES[words[directionIndex - 1]] ? directionIndex - 1 : 0;
+    if (!STREET_TYPES[words[typeIndex]]) continue;
+
+    const street = words.map((word, index) => {
+      if (index === typeIndex) return STREET_TYPES[word];
+      if (index === directionIndex) return DIRECTIONS[word];
+      return word.toUpperCase();
+    }).join(' ');
+
+    return { civicNumber: civicMatch[1].toUpperCase(), street, unit, postalCode: parsedPostalCode };
+  }
+  return null;
+}
+
+/**
+ * Formats a parsed address as Canada Post writes it, e.g. `4-123 MAIN ST`
+ * @param address The parsed address
+ * @param includeUnit Whether to include the unit; leave it out for the building's address
+ */
+export function formatAddress(address: ParsedAddress, includeUnit = true): string {
+  const civic = `${address.civicNumber} ${address.street}`;
+  return includeUnit && address.unit ? `${address.unit}-${civic}` : civic;
+}
@@ -0,0 +1,401 @@
+import { Listing, Prisma, PrismaClient } from '@prisma/client';
+import * as http from 'http';
+import { getOption } from './cli';
+import { getFsa } from './geo';
+import { getStatsFilter } from './listing-filters';
+import { OPENAPI_SPEC } from './openapi';
+import { createRedactor } from './redaction';
+import { buildRentReport, RentReport, RentReportCell, ReportPeriod } from './rent-report';
+
+// Initialize Prisma client
+const prisma = new PrismaClient();
+
+const DEFAULT_PORT = 3000;
+
+// Listings per page unless ?limit= is passed, and the most a page can hold
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+
+// How long aggregate statistics are cached, unless --cache-ttl <seconds> is passed
+const DEFAULT_CACHE_TTL_SECONDS = 300;
+
+// Most reports kept in the cache; the oldest is dropped to make room, so arbitrary query strings
+// can't grow it without bound
+const MAX_CACHED_REPORTS = 50;
+
+// Cells with fewer listings than this are flagged, as in `npm run report`
+const DEFAULT_MIN_SAMPLE = 10;
+
+/**
+ * Thrown by a handler to answer with an error status, e.g. 400 for an invalid query parameter
+ */
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+// A listing as returned by the API, after redaction; a type rather than an interface so it can
+// be serialized as JSON
+export type ApiListing = {
+  id: string;
+  source: string;
+  title: string | null;
+  description: string | null;
+  language: string;
+  city: string | null;
+  province: string | null;
+  street: string | null;
+  fsa: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  category: string | null;
+  price: number;
+  billingPeriod: string | null;
+  pricePerPerson: boolean;
+  monthlyRent: number | null;
+  allInRent: number | null;
+  bedrooms: number | null;
+  bathrooms: number | null;
+  squareFeet: number | null;
+  petFriendly: boolean | null;
+  amenities: string[];
+  availableDate: string | null;
+  listedDate: string;
+  firstSeenAt: string | null;
+  lastSeenAt: string | null;
+  delistedAt: string | null;
+};
+
+// A page of results and the cursor for the next one, null on the last page
+export type Page<T> = {
+  data: T[];
+  nextCursor: string | null;
+};
+
+// A cached aggregate and when it goes stale
+interface CacheEntry {
+  expiresAt: number;
+  value: Promise<RentReport>;
+}
+
+/**
+ * Parses an optional number from the query string
+ */
+function parseNumber(params: URLSearchParams, name: string, integer = false): number | undefined {
+  const value = params.get(name);
+  if (value === null || value === '') return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || (integer && !Number.isInteger(parsed))) {
+    throw new HttpError(400, `${name} must be ${integer ? 'an integer' : 'a number'}`);
+  }
+  return parsed;
+}
+
+/**
+ * Parses an optional true or false from the query string
+ */
+function parseBoolean(params: URLSearchParams, name: string): boolean | undefined {
+  const value = params.get(name);
+  if (value === null || value === '') return undefined;
+  if (value !== 'true' && value !== 'false') {
+    throw new HttpError(400, `${name} must be true or false`);
+  }
+  return value === 'true';
+}
+
+/**
+ * Parses an optional date or date-time from the query string, e.g. 2025-03-01
+ */
+function parseDate(params: URLSearchParams, name: string): Date | undefined {
+  const value = params.get(name);
+  if (value === null || value === '') return undefined;
+  const parsed = new Date(value);
+  if (!/^\d{4}-\d{2}-\d{2}/.test(value) || isNaN(parsed.getTime())) {
+    throw new HttpError(400, `${name} must be an ISO 8601 date, e.g. 2025-03-01`);
+  }
+  return parsed;
+}
+
+/**
+ * Formats a listing for the API. Text and location go through the same redaction as exports.
+ */
+function toApiListing(listing: Listing): ApiListing {
+  const redacted = createRedactor().redactListing({
+    listingTitle: listing.listingTitle,
+    description: listing.description,
+    streetAddress: listing.streetAddress,
+    postalCode: listing.postalCode,
+    latitude: listing.latitude?.toNumber() ?? null,
+    longitude: listing.longitude?.toNumber() ?? null
+  });
+  return {
+    id: listing.id,
+    source: listing.source,
+    title: redacted.listingTitle,
+    description: redacted.description,
+    language: listing.language,
+    city: listing.city,
+    province: listing.state,
+    street: redacted.street,
+    fsa: getFsa(listing.postalCode) ?? null,
+    latitude: redacted.latitude,
+    longitude: redacted.longitude,
+    category: listing.ai_category_v1,
+    price: listing.price.toNumber(),
+    billingPeriod: listing.billingPeriod,
+    pricePerPerson: listing.pricePerPerson,
+    monthlyRent: listing.monthlyRent?.toNumber() ?? null,
+    allInRent: listing.allInRent?.toNumber() ?? null,
+    bedrooms: listing.bedrooms,
+    bathrooms: listing.bathrooms,
+    squareFeet: listing.squareFeet,
+    petFriendly: listing.petFriendly,
+    amenities: listing.amenities,
+    availableDate: listing.availableDate?.toISOString() ?? null,
+    listedDate: listing.listedDate.toISOString(),
+    firstSeenAt: listing.firstSeenAt?.toISOString() ?? null,
+    lastSeenAt: listing.lastSeenAt?.toISOString() ?? null,
+    delistedAt: listing.delistedAt?.toISOString() ?? null
+  };
+}
+
+/**
+ * Searches listings that count towards statistics, newest first. Prices are compared against the
+ * monthly rent, or the listed price for listings whose price hasn't been normalized.
+ */
+async function searchListings(params: URLSearchParams): Promise<Page<ApiListing>> {
+  const limit = parseNumber(params, 'limit', true) ?? DEFAULT_PAGE_SIZE;
+  if (limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw new HttpError(400, `limit must be from 1 to ${MAX_PAGE_SIZE}`);
+  }
+
+  const where: Prisma.ListingWhereInput = {};
+  const city = params.get('city');
+  if (city) where.city = { equals: city, mode: 'insensitive' };
+  const category = params.get('category');
+  if (category) where.ai_category_v1 = category;
+  const bedrooms = parseNumber(params, 'bedrooms', true);
+  if (bedrooms !== undefined) where.bedrooms = bedrooms;
+  const petFriendly = parseBoolean(params, 'petFriendly');
+  if (petFriendly !== undefined) where.petFriendly = petFriendly;
+
+  const minPrice = parseNumber(params, 'minPrice');
+  const maxPrice = parseNumber(params, 'maxPrice');
+  if (minPrice !== undefined || maxPrice !== undefined) {
+    const range = { gte: minPrice, lte: maxPrice };
+    where.OR = [{ monthlyRent: range }, { monthlyRent: null, price: range }];
+  }
+
+  const listedAfter = parseDate(params, 'listedAfter');
+  const listedBefore = parseDate(params, 'listedBefore');
+  if (listedAfter || listedBefore) where.listedDate = { gte: listedAfter, lte: listedBefore };
+
+  const cursor = params.get('cursor');
+  const listings = await prisma.listing.findMany({
+    where: getStatsFilter(where),
+    orderBy: [{ listedDate: 'desc' }, { id: 'asc' }],
+    // One more than a page, to tell whether there's a next one
+    take: limit + 1,
+    ...(cursor ? { skip: 1, cursor: { id: cursor } } : {})
+  });
+
+  const page = listings.slice(0, limit);
+  return {
+    data: page.map(toApiListing),
+    nextCursor: listings.length > limit ? page[page.length - 1].id : null
+  };
+}
+
+/**
+ * Gets a listing's price every time it was scraped, oldest first
+ */
+async function getPriceHistory(listingId: string) {
+  const listing = await prisma.listing.findFirst({ where: getStatsFilter({ id: listingId }), select: { id: true } });
+  if (!listing) {
+    throw new HttpError(404, `Listing ${listingId} not found`);
+  }
+  const history = await prisma.priceHistory.findMany({
+    where: { listingId },
+    orderBy: { recordedAt: 'asc' }
+  });
+  return {
+    listingId,
+    history: history.map((entry) => ({
+      price: entry.price.toNumber(),
+      monthlyRent: entry.monthlyRent?.toNumber() ?? null,
+      recordedAt: entry.recordedAt.toISOString()
+    }))
+  };
+}
+
+/**
+ * Creates the handler for aggregate statistics. Building a report reads every listing, so reports
+ * are cached per city, period and minimum sample size, and filtered by category and period range
+ * from the cache. At most MAX_CACHED_REPORTS are kept, and expired ones are dropped.
+ * @param cacheTtlMs How long a report is reused for
+ */
+function createStatisticsHandler(cacheTtlMs: number) {
+  const cache = new Map<string, CacheEntry>();
+
+  const getReport = (period: ReportPeriod, minSample: number, city?: string): { report: Promise<RentReport>; cached: boolean } => {
+    const now = Date.now();
+    for (const [key, entry] of cache) {
+      if (entry.expiresAt <= now) cache.delete(key);
+    }
+
+    const key = `${city || ''}|${period}|${minSample}`;
+    const entry = cache.get(key);
+    if (entry) {
+      return { report: entry.value, cached: true };
+    }
+
+    // Maps iterate in insertion order, so the first key is the oldest report
+    while (cache.size >= MAX_CACHED_REPORTS) {
+      cache.delete(cache.keys().next().value!);
+    }
+    // Cache the pending report so concurrent requests share one query
+    const value = buildRentReport(prisma, { period, minSample, city });
+    const created = { expiresAt: now + cacheTtlMs, value };
+    cache.set(key, created);
+    value.catch(() => {
+      if (cache.get(key) === created) cache.delete(key);
+    });
+    return { report: value, cached: false };
+  };
+
+  return async (params: URLSearchParams) => {
+    const period = params.get('period') || 'month';
+    if (period !== 'month' && period !== 'week') {
+      throw new HttpError(400, 'period must be month or week');
+    }
+    const minSample = parseNumber(params, 'minSample', true) ?? DEFAULT_MIN_SAMPLE;
+    if (minSample < 1) {
+      throw new HttpError(400, 'minSample must be a positive integer');
+    }
+    const category = params.get('category');
+    // Period keys sort chronologically, e.g. 2025-03 or 2025-03-10
+    const from = params.get('from');
+    const to = params.get('to');
+
+    // Cities are matched case-insensitively, so differently cased requests share a report
+    const city = params.get('city')?.trim().toLowerCase() || undefined;
+    const { report, cached } = getReport(period, minSample, city);
+    const { cells, ...rest } = await report;
+    const filtered = cells.filter((cell: RentReportCell) =>
+      (!category || cell.category === category) &&
+      (!from || cell.period >= from) &&
+      (!to || cell.period <= to)
+    );
+    return { body: { ...rest, cells: filtered }, cached };
+  };
+}
+
+/**
+ * Decodes a percent-encoded path segment, such as a listing ID
+ */
+function decodePathSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    throw new HttpError(400, `Malformed path segment "${segment}"`);
+  }
+}
+
+/**
+ * Sends a JSON response
+ */
+function sendJson(response: http.ServerResponse, status: number, body: unknown, headers: http.OutgoingHttpHeaders = {}) {
+  response.writeHead(status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    // The API is public and read-only, so it can be called from any page
+    'Access-Control-Allow-Origin': '*',
+    ...headers
+  });
+  response.end(JSON.stringify(body));
+}
+
+/**
+ * Creates the API server. Every endpoint is a GET; see src/openapi.ts for the parameters.
+ * @param cacheTtlSeconds How long aggregate statistics are cached
+ */
+export function createApiServer(cacheTtlSeconds: number = DEFAULT_CACHE_TTL_SECONDS): http.Server {
+  const getStatistics = createStatisticsHandler(cacheTtlSeconds * 1000);
+
+  return http.createServer(async (request, response) => {
+    try {
+      if (request.method !== 'GET') {
+        throw new HttpError(405, 'Only GET requests are supported');
+      }
+      const url = new URL(request.url || '/', 'http://localhost');
+      const segments = url.pathname.split('/').filter(Boolean).map(decodePathSegment);
+
+      if (url.pathname === '/openapi.json') {
+        sendJson(response, 200, OPENAPI_SPEC);
+      } else if (url.pathname === '/listings') {
+        sendJson(response, 200, await searchListings(url.searchParams));
+      } else if (segments.length === 3 && segments[0] === 'listings' && segments[2] === 'price-history') {
+        sendJson(response, 200, await getPriceHistory(segments[1]));
+      } else if (url.pathname === '/statistics') {
+        const { body, cached } = await getStatistics(url.searchParams);
+        sendJson(response, 200, body, {
+          'Cache-Control': `public, max-age=${cacheTtlSeconds}`,
+          'X-Cache': cached ? 'HIT' : 'MISS'
+        });
+      } else {
+        throw new HttpError(404, `No endpoint at ${url.pathname}; see /openapi.json`);
+      }
+    } catch (error) {
+      if (error instanceof HttpError) {
+        sendJson(response, error.status, { error: error.message });
+      } else {
+        console.error(`${request.method} ${request.url} failed:`, error);
+        sendJson(response, 500, { error: 'Internal server error' });
+      }
+    }
+  });
+}
+
+/**
+ * Parses a whole number from the command line, e.g. a port or a number of seconds
+ * @param name The option, for the error message
+ * @param value The value given, or the default
+ * @param max The largest value allowed, if any
+ */
+function parseIntegerOption(name: string, value: string, max?: number): number {
+  const parsed = Number(value);
+  if (!/^\d+$/.test(value.trim()) || !Number.isSafeInteger(parsed) || (max !== undefined && parsed > max)) {
+    throw new Error(`Invalid ${name} "${value}"; use a whole number ${max !== undefined ? `from 0 to ${max}` : 'of 0 or more'}`);
+  }
+  return parsed;
+}
+
+/**
+ * Serves the read-only API on --port (or PORT, default 3000) until interrupted
+ */
+async function serveApi() {
+  const port = parseIntegerOption('port', getOption('--port') || process.env.PORT || String(DEFAULT_PORT), 65535);
+  const cacheTtl = parseIntegerOption('cache TTL', getOption('--cache-ttl') || String(DEFAULT_CACHE_TTL_SECONDS));
+  const server = createApiServer(cacheTtl);
+
+  await new Promise<void>((resolve) => server.listen(port, resolve));
+  console.log(`API listening on http://localhost:${port} (OpenAPI description at /openapi.json)`);
+
+  await new Promise<void>((resolve) => {
+    process.once('SIGINT', resolve);
+    process.once('SIGTERM', resolve);
+  });
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+  console.log(`\n===== API STOPPED =====`);
+}
+
+if (require.main === module) {
+  serveApi()
+    .then(() => prisma.$disconnect())
+    .catch((error) => {
+      console.error('API failed:', error);
+      prisma.$disconnect();
+      process.exit(1);
+    });
+}
@@ -0,0 +1,138 @@
+import { PrismaClient } from '@prisma/client';
+import { getOption } from './cli';
+import { findBoundary, FSA_LAYER, getFsa, loadBoundaryLayers } from './geo';
+
+// Initialize Prisma client
+const prisma = new PrismaClient();
+
+// Rows inserted per query
+const BATCH_SIZE = 5000;
+
+// An area a listing has been assigned to, before area IDs are known
+interface Assignment {
+  layer: string;
+  code: string;
+  method: 'point' | 'postal_code' | 'fsa';
+}
+
+/**
+ * Makes sure every area exists, and returns area IDs keyed by `layer:code`
+ * @param areas Layer, code and name of every area that will be assigned
+ */
+async function saveAreas(areas: { layer: string; code: string; name: string | null }[]): Promise<Map<string, number>> {
+  const existing = await prisma.area.findMany();
+  const byKey = new Map(existing.map((area) => [`${area.layer}:${area.code}`, area]));
+
+  const missing = areas.filter((area) => !byKey.has(`${area.layer}:${area.code}`));
+  await prisma.area.createMany({ data: missing, skipDuplicates: true });
+
+  // Boundary files get updated, so keep names current
+  const renamed = areas.filter((area) => {
+    const saved = byKey.get(`${area.layer}:${area.code}`);
+    return saved && area.name !== null && saved.name !== area.name;
+  });
+  await prisma.$transaction(renamed.map((area) => prisma.area.update({
+    where: { layer_code: { layer: area.layer, code: area.code } },
+    data: { name: area.name }
+  })));
+
+  const saved = await prisma.area.findMany({ select: { id: true, layer: true, code: true } });
+  return new Map(saved.map((area) => [`${area.layer}:${area.code}`, area.id]));
+}
+
+/**
+ * Assigns every listing to the areas it's in: the boundary of each GeoJSON layer that contains its
+ * coordinates, and the FSA of its postal code. A listing without coordinates is placed in the area
+ * most listings with coordinates in the same FSA are in. Layers are listed in
+ * config/boundaries.json, or the file passed with --config.
+ */
+async function assignAreas() {
+  const layers = loadBoundaryLayers(getOption('--config'));
+  console.log(`Loaded ${layers.length} boundary layers: ${layers.map((layer) => `${layer.layer} (${layer.boundaries.length} areas)`).join(', ') || 'none'}`);
+
+  const listings = await prisma.listing.findMany({
+    select: { id: true, latitude: true, longitude: true, postalCode: true }
+  });
+
+  const assignments = new Map<string, Assignment[]>();
+  // Votes for each layer's areas among listings with coordinates, by FSA
+  const votes = new Map<string, Map<string, number>>();
+  const withoutCoordinates: { id: string; fsa: string }[] = [];
+
+  for (const listing of listings) {
+    const listingAssignments: Assignment[] = [];
+    const fsa = getFsa(listing.postalCode);
+    if (fsa) listingAssignments.push({ layer: FSA_LAYER, code: fsa, method: 'postal_code' });
+
+    if (listing.latitude !== null && listing.longitude !== null) {
+      for (const layer of layers) {
+        const boundary = findBoundary(layer, listing.longitude.toNumber(), listing.latitude.toNumber());
+        if (!boundary) continue;
+        listingAssignments.push({ layer: layer.layer, code: boundary.code, method: 'point' });
+
+        if (fsa) {
+          const key = `${layer.layer}:${fsa}`;
+          const counts = votes.get(key) || new Map<string, number>();
+          counts.set(boundary.code, (counts.get(boundary.code) || 0) + 1);
+          votes.set(key, counts);
+        }
+      }
+    } else if (fsa) {
+      withoutCoordinates.push({ id: listing.id, fsa });
+    }
+
+    assignments.set(listing.id, listingAssignments);
+  }
+
+  let placedByFsa = 0;
+  for (const { id, fsa } of withoutCoordinates) {
+    for (const layer of layers) {
+      const counts = votes.get(`${layer.layer}:${fsa}`);
+      if (!counts) continue;
+      const [code] = Array.from(counts).sort((a, b) => b[1] - a[1])[0];
+      assignments.get(id)!.push({ layer: layer.layer, code, method: 'fsa' });
+      placedByFsa++;
+    }
+  }
+
+  const names = new Map(layers.flatMap((layer) => layer.boundaries.map((boundary) => [`${layer.layer}:${boundary.code}`, boundary.name])));
+  const areaKeys = new Set(Array.from(assignments.values()).flat().map(({ layer, code }) => `${layer}:${code}`));
+  const areaIds = await saveAreas(Array.from(areaKeys).map((key) => {
+    const separator = key.indexOf(':');
+    return { layer: key.substring(0, separator), code: key.substring(separator + 1), name: names.get(key) ?? null };
+  }));
+
+  const rows = Array.from(assignments).flatMap(([listingId, listingAssignments]) =>
+    listingAssignments.map(({ layer, code, method }) => ({ listingId, areaId: areaIds.get(`${layer}:${code}`)!, method }))
+  );
+
+  // Assignments are recomputed from scratch, so listings that moved or lost their coordinates don't keep stale areas
+  await prisma.$transaction([
+    prisma.listingArea.deleteMany(),
+    ...Array.from({ length: Math.ceil(rows.length / BATCH_SIZE) }, (_, index) =>
+      prisma.listingArea.createMany({ data: rows.slice(index * BATCH_SIZE, (index + 1) * BATCH_SIZE) })
+    )
+  ]);
+
+  console.log(`\n===== AREA ASSIGNMENT COMPLETE =====`);
+  console.log(`Listings: ${listings.length}`);
+  console.log(`Listings in an FSA: ${rows.filter((row) => row.method === 'postal_code').length}`);
+  for (const layer of layers) {
+    const count = Array.from(assignments.values()).filter((listingAssignments) =>
+      listingAssignments.some((assignment) => assignment.layer === layer.layer)
+    ).length;
+    console.log(`Listings in a ${layer.layer}: ${count}`);
+  }
+  console.log(`Areas placed by FSA for listings without coordinates: ${placedByFsa}`);
+  console.log(`Listings not in any area: ${listings.filter((listing) => assignments.get(listing.id)!.length === 0).length}`);
+}
+
+if (require.main === module) {
+  assignAreas()
+    .then(() => prisma.$disconnect())
+    .catch((error) => {
+      console.error('Area assignment failed:', error);
+      prisma.$disconnect();
+      process.exit(1);
+    });
+}
@@ -0,0 +1,242 @@
+import { parseQuebecRoomCount } from './language';
+
+// Where an attribute value came from, from most to least trustworthy: a field of the source's
+// own data, a regular expression over the title and description, or a language model
+export type AttributeSource = 'structured' | 'regex' | 'model';
+
+export type PetPolicy = 'allowed' | 'not_allowed' | 'unknown';
+export type ParkingType = 'included' | 'available' | 'street' | 'none';
+export type LaundryType = 'in_unit' | 'in_building' | 'none';
+export type LeaseTerm = 'month_to_month' | 'fixed_term' | 'short_term';
+
+export const UTILITIES = ['heat', 'electricity', 'water', 'internet'];
+export const PARKING_TYPES: ParkingType[] = ['included', 'available', 'street', 'none'];
+export const LAUNDRY_TYPES: LaundryType[] = ['in_unit', 'in_building', 'none'];
+export const LEASE_TERMS: LeaseTerm[] = ['month_to_month', 'fixed_term', 'short_term'];
+
+// An attribute value and where it came from
+export interface ExtractedValue<T> {
+  value: T;
+  source: AttributeSource;
+}
+
+// Every attribute we extract; a missing field means nothing was found
+export interface ExtractedAttributes {
+  bedrooms?: ExtractedValue<number>;
+  bathrooms?: ExtractedValue<number>;
+  furnished?: ExtractedValue<boolean>;
+  utilitiesIncluded?: ExtractedValue<string[]>;
+  parking?: ExtractedValue<ParkingType>;
+  laundry?: ExtractedValue<LaundryType>;
+  leaseTerm?: ExtractedValue<LeaseTerm>;
+  petPolicy?: ExtractedValue<PetPolicy>;
+  isSublet?: ExtractedValue<boolean>;
+}
+
+// Interface for the listing data attributes are extracted from
+export interface ListingForExtraction {
+  id: string;
+  source: string;
+  listingTitle: string | null;
+  description: string | null;
+  bedrooms: number | null;
+  bathrooms: number | null;
+  amenities: string[];
+  petFriendly: boolean | null;
+}
+
+// Number words that show up in place of digits
+const NUMBER_WORDS: Record<string, number> = { one: 1, two: 2, three: 3, four: 4, five: 5, six: 6 };
+const COUNT = '(\\d+(?:\\.5)?|one|two|three|four|five|six)';
+
+const BEDROOM_PATTERN = new RegExp(`\\b${COUNT}[\\s-]*(?:bed(?:room)?s?|bdrms?|bdr|br|bd)\\b`, 'i');
+const FRENCH_BEDROOM_PATTERN = /\b(\d)\s*chambres?\s+(?:à\s+coucher|fermées?)|\b(\d)\s*chambres\b/i;
+const STUDIO_PATTERN = /\bstudio\b|\bbachelor\b|\bgarçonnière/i;
+const BATHROOM_PATTERN = new RegExp(`\\b${COUNT}[\\s-]*(?:and\\s+a\\s+half\\s+)?(?:full\\s+)?(?:bath(?:room)?s?|baths?|ba)\\b`, 'i');
+const FRENCH_BATHROOM_PATTERN = /\b(\d)\s*salles?\s+de\s+bains?\b/i;
+const HALF_BATH_PATTERN = /\b(?:(?:and|\+|&)\s*(?:a|one|1)\s+half[\s-]*bath|powder\s+room|half[\s-]*bath)/i;
+
+const UNFURNISHED_PATTERN = /\bunfurnished\b|\bnot\s+furnished\b|\bnon[\s-]meublée?/i;
+const FURNISHED_PATTERN = /\b(?:fully\s+|semi[\s-]?)?furnished\b|\b(?:semi[\s-]?)?meublée?/i;
+
+const UTILITY_PATTERNS: Record<string, RegExp> = {
+  heat: /\bheat(?:ing)?\b|\bchauffage\b/i,
+  electricity: /\bhydro\b|\belectric(?:ity)?\b|\bpower\b|\blights?\b|[ée]lectricit[ée]/i,
+  water: /\bwater\b|\beau\b/i,
+  internet: /\binternet\b|\bwi-?fi\b/i
+};
+const INCLUDED_PATTERN = /\binclud(?:ed|es|ing)\b|\ball[\s-]inclusive\b|\binclu(?:s|se|ses)\b|\btout\s+inclus\b/i;
+const NOT_INCLUDED_PATTERN = /\bnot\s+includ|\bexclu|\bextra\b|\bplus\b|\+\s*utilities|\bseparate(?:ly)?\b|\btenant\s+pays\b|\bnon\s+inclu|\ben\s+sus\b/i;
+const ALL_UTILITIES_PATTERN = /\butilities\b|\ball[\s-]inclusive\b|\btout\s+inclus\b/i;
+
+// Quebec listings describe included heat and electricity as "chauffé, éclairé" (heated, lit)
+const FRENCH_UTILITY_PATTERNS: Record<string, RegExp> = {
+  heat: /(?<!non\s)(?<![a-zà-ÿ])chauff[ée]e?s?(?![a-zà-ÿ])/i,
+  electricity: /(?<!non\s)(?<![a-zà-ÿ])[ée]clair[ée]e?s?(?![a-zà-ÿ])/i,
+  water: /\beau\s+chaude\s+(?:incluse|fournie)/i
+};
+
+const PARKING_PATTERNS: { pattern: RegExp; value: ParkingType }[] = [
+  { pattern: /\bno\s+parking\b|\bparking\s+(?:is\s+)?not\s+(?:available|included)\b|\bpas\s+de\s+stationnement\b/i, value: 'none' },
+  { pattern: /\bparking\s+(?:is\s+)?included\b|\bincludes?\s+(?:\w+\s+){0,3}parking\b|\bfree\s+parking\b|\b\d\s+parking\s+(?:spots?|spaces?)\b|\bstationnement\s+inclus/i, value: 'included' },
+  { pattern: /\bparking\s+(?:is\s+)?available\b|\bparking\s+(?:for\s+)?(?:an?\s+)?(?:extra|additional)?\s*\$\d+|\b(?:underground|indoor|garage|driveway)\s+parking\b|\bstationnement\s+(?:disponible|int[ée]rieur|ext[ée]rieur|souterrain)/i, value: 'available' },
+  { pattern: /\bstreet\s+parking\b|\bstationnement\s+(?:dans\s+la\s+rue|sur\s+rue)/i, value: 'street' }
+];
+
+const LAUNDRY_PATTERNS: { pattern: RegExp; value: LaundryType }[] = [
+  { pattern: /\bno\s+laundry\b/i, value: 'none' },
+  { pattern: /\b(?:in[\s-]?(?:suite|unit)|en[\s-]?suite|private|own)\s+laundry\b|\bwasher\s*(?:and|&|\/)\s*dryer\s+in\s+(?:the\s+)?(?:unit|suite|apartment)\b|\bin[\s-]?(?:suite|unit)\s+washer\b|\bentr[ée]es?\s+laveuse|\blaveuse\s*(?:et|\/|-)\s*s[ée]cheuse\s+(?:incluses|fournies)/i, value: 'in_unit' },
+  { pattern: /\b(?:shared|coin|on[\s-]?site|common)\s+laundry\b|\blaundry\s+(?:room|facilities|on[\s-]?site|in\s+(?:the\s+)?building)\b|\bcoin[\s-]operated\b|\bbuanderie\b/i, value: 'in_building' }
+];
+
+const LEASE_PATTERNS: { pattern: RegExp; value: LeaseTerm }[] = [
+  { pattern: /\bmonth[\s-]to[\s-]month\b|\bmois\s+par\s+mois\b/i, value: 'month_to_month' },
+  { pattern: /\bshort[\s-]term\b|\b(?:summer|winter|fall)\s+(?:sublet|rental|term)\b|\bfor\s+(?:[1-6]|one|two|three|four|five|six)\s+months?\b|\bcourt\s+terme\b/i, value: 'short_term' },
+  { pattern: /\b(?:\d+|one|two)[\s-](?:year|yr|month)\s+lease\b|\b(?:yearly|annual)\s+lease\b|\blease\s+(?:term\s+)?(?:of\s+)?(?:12|one|1)[\s-](?:year|months?)\b|\bbail\s+(?:de\s+\d+\s+mois|d'un\s+an|annuel)/i, value: 'fixed_term' }
+];
+
+const NO_PETS_PATTERN = /\bno\s+(?:pets|cats|dogs|animals)\b|\bpets?\s+(?:are\s+)?not\s+(?:allowed|permitted|accepted)\b|\bpet[\s-]free\b|\bnon[\s-]pet\b|\bpas\s+d'animaux\b|\baucun\s+animal|\banimaux\s+(?:non\s+(?:accept|admis|permis)|interdits)/i;
+const PETS_ALLOWED_PATTERN = /\bpets?\s+(?:are\s+)?(?:allowed|welcome|ok(?:ay)?|permitted|considered|negotiable)\b|\bpet[\s-]friendly\b|\b(?:cats?|dogs?|small\s+pets?)\s+(?:are\s+)?(?:allowed|welcome|ok(?:ay)?|permitted)\b|\b(?:animaux|chats?|chiens?)\s+(?:accept|admis|permis|bienvenus)/i;
+
+const SUBLET_PATTERN = /\bsub[\s-]?let(?:ting)?\b|\bsub[\s-]?lease\b|\blease\s+(?:takeover|transfer)\b|\btake\s+over\s+(?:my|the|our)\s+lease\b|\bsous[\s-]?(?:location|louer|loue)\b|\b(?:cession|transfert)\s+de\s+bail\b/i;
+
+// Kijiji yes/no attributes, stored as amenities, that map to attributes
+const KIJIJI_UTILITY_AMENITIES: Record<string, string> = { heat: 'heat', hydro: 'electricity', water: 'water', wifi: 'internet' };
+
+/**
+ * Parses a count such as `2`, `1.5` or `two`
+ */
+function parseCount(text: string): number {
+  return NUMBER_WORDS[text.toLowerCase()] ?? parseFloat(text);
+}
+
+/**
+ * Finds the bathroom count in text, counting "and a half" and half baths as 0.5
+ */
+function extractBathrooms(text: string): number | undefined {
+  const match = text.match(BATHROOM_PATTERN);
+  if (!match) {
+    return undefined;
+  }
+  let bathrooms = parseCount(match[1]);
+  if (/and\s+a\s+half/i.test(match[0]) || (Number.isInteger(bathrooms) && HALF_BATH_PATTERN.test(text))) {
+    bathrooms += 0.5;
+  }
+  return bathrooms;
+}
+
+/**
+ * Finds the utilities a listing says are included, looking at each sentence that mentions
+ * something being included
+ * @returns The utilities, or undefined if the text says nothing about them
+ */
+function extractUtilities(text: string): string[] | undefined {
+  const utilities = new Set<string>();
+  let mentioned = false;
+
+  for (const clause of text.split(/[.;!\n]+/)) {
+    if (!INCLUDED_PATTERN.test(clause) || NOT_INCLUDED_PATTERN.test(clause)) continue;
+
+    const specific = UTILITIES.filter((utility) => UTILITY_PATTERNS[utility].test(clause));
+    specific.forEach((utility) => utilities.add(utility));
+    if (specific.length > 0) {
+      mentioned = true;
+    } else if (ALL_UTILITIES_PATTERN.test(clause)) {
+      // "Utilities included" and "all inclusive" rarely cover internet
+      ['heat', 'electricity', 'water'].forEach((utility) => utilities.add(utility));
+      mentioned = true;
+    }
+  }
+
+  for (const [utility, pattern] of Object.entries(FRENCH_UTILITY_PATTERNS)) {
+    if (pattern.test(text)) {
+      utilities.add(utility);
+      mentioned = true;
+    }
+  }
+
+  return mentioned ? UTILITIES.filter((utility) => utilities.has(utility)) : undefined;
+}
+
+/**
+ * Returns the value of the first pattern that matches
+ */
+function firstMatch<T>(text: string, patterns: { pattern: RegExp; value: T }[]): T | undefined {
+  return patterns.find(({ pattern }) => pattern.test(text))?.value;
+}
+
+/**
+ * Reads attributes from the fields a source provides as structured data. Kijiji's bedroom,
+ * bathroom and pet fields are structured; Facebook's bedroom and bathroom counts come partly
+ * from regular expressions over the title, so they count as regex values.
+ */
+function getStructuredAttributes(listing: ListingForExtraction): ExtractedAttributes {
+  const attributes: ExtractedAttributes = {};
+  const countSource: AttributeSource = listing.source === 'kijiji' ? 'structured' : 'regex';
+  if (listing.bedrooms !== null) attributes.bedrooms = { value: listing.bedrooms, source: countSource };
+  if (listing.bathrooms !== null) attributes.bathrooms = { value: listing.bathrooms, source: countSource };
+
+  if (listing.source === 'kijiji') {
+    const amenities = new Set(listing.amenities);
+    // Kijiji only sends yes/no attributes that are set, so absence isn't a no
+    if (amenities.has('furnished')) attributes.furnished = { value: true, source: 'structured' };
+    if (amenities.has('laundryinunit')) attributes.laundry = { value: 'in_unit', source: 'structured' };
+    else if (amenities.has('laundryinbuilding')) attributes.laundry = { value: 'in_building', source: 'structured' };
+    if (listing.petFriendly) attributes.petPolicy = { value: 'allowed', source: 'structured' };
+
+    const utilities = Object.keys(KIJIJI_UTILITY_AMENITIES).filter((name) => amenities.has(name));
+    if (utilities.length > 0) {
+      attributes.utilitiesIncluded = { value: utilities.map((name) => KIJIJI_UTILITY_AMENITIES[name]), source: 'structured' };
+    }
+  }
+
+  return attributes;
+}
+
+/**
+ * Extracts attributes from a listing's structured fields, then fills in what they don't cover
+ * with regular expressions over the title and description. Structured values always win.
+ * @param listing The listing
+ * @returns The attributes found; fields nothing was found for are left out
+ */
+export function extractAttributes(listing: ListingForExtraction): ExtractedAttributes {
+  const attributes = getStructuredAttributes(listing);
+  const text = `${listing.listingTitle || ''}\n${listing.description || ''}`;
+  const regex = <T>(value: T | undefined): ExtractedValue<T> | undefined =>
+    value === undefined ? undefined : { value, source: 'regex' };
+
+  if (!attributes.bedrooms) {
+    const match = text.match(BEDROOM_PATTERN);
+    const frenchMatch = text.match(FRENCH_BEDROOM_PATTERN);
+    const bedrooms = match ? Math.floor(parseCount(match[1]))
+      : parseQuebecRoomCount(text) ??
+        (frenchMatch ? parseInt(frenchMatch[1] || frenchMatch[2]) : STUDIO_PATTERN.test(text) ? 0 : undefined);
+    attributes.bedrooms = regex(bedrooms);
+  }
+  if (!attributes.bathrooms) {
+    const frenchMatch = text.match(FRENCH_BATHROOM_PATTERN);
+    attributes.bathrooms = regex(extractBathrooms(text) ?? (frenchMatch ? parseInt(frenchMatch[1]) : undefined));
+  }
+
+  if (!attributes.furnished) {
+    attributes.furnished = regex(UNFURNISHED_PATTERN.test(text) ? false : FURNISHED_PATTERN.test(text) ? true : undefined);
+  }
+  attributes.utilitiesIncluded = attributes.utilitiesIncluded || regex(extractUtilities(text));
+  attributes.parking = attributes.parking || regex(firstMatch(text, PARKING_PATTERNS));
+  attributes.laundry = attributes.laundry || regex(firstMatch(text, LAUNDRY_PATTERNS));
+  attributes.leaseTerm = attributes.leaseTerm || regex(firstMatch(text, LEASE_PATTERNS));
+
+  if (!attributes.petPolicy) {
+    const noPets = NO_PETS_PATTERN.test(text);
+    const petsAllowed = PETS_ALLOWED_PATTERN.test(text);
+    // Listings that say both, e.g. "no dogs, cats welcome", are left for the model
+    if (noPets !== petsAllowed) attributes.petPolicy = regex<PetPolicy>(noPets ? 'not_allowed' : 'allowed');
+  }
+  if (SUBLET_PATTERN.test(text)) attributes.isSublet = regex(true);
+
+  // Drop the keys regex() left undefined
+  for (const key of Object.keys(attributes) as (keyof ExtractedAttributes)[]) {
+    if (attributes[key] === undefined) delete attributes[key];
+  }
+  return attributes;
+}
@@ -0,0 +1,120 @@
+// Month names and abbreviations, in English and French
+const MONTHS: Record<string, number> = {
+  january: 0, jan: 0, janvier: 0, janv: 0,
+  february: 1, feb: 1, février: 1, fevrier: 1, févr: 1, fevr: 1,
+  march: 2, mar: 2, mars: 2,
+  april: 3, apr: 3, avril: 3, avr: 3,
+  may: 4, mai: 4,
+  june: 5, jun: 5, juin: 5,
+  july: 6, jul: 6, juillet: 6, juil: 6,
+  august: 7, aug: 7, août: 7, aout: 7,
+  september: 8, sept: 8, sep: 8, septembre: 8,
+  october: 9, oct: 9, octobre: 9,
+  november: 10, nov: 10, novembre: 10,
+  december: 11, dec: 11, décembre: 11, decembre: 11, déc: 11
+};
+
+// Wording that introduces when a unit is available, e.g. "Available", "Move-in date" or "Disponible"
+const AVAILABILITY_PATTERN = /\b(?:available|avail\.?|move[\s-]?in(?:\s+date)?|occupancy|possession|start(?:ing)?(?:\s+date)?|disponible|disponibilité|libre|occupation)(?![a-zà-ÿ])/gi;
+
+// Words between the availability wording and the date, e.g. "available *on the* 1st"
+const CONNECTOR_PATTERN = /^\s*[:\-–]?\s*(?:(?:on|from|as\s+of|starting|beginning|for|the|le|du|dès|des|à\s+partir\s+du|a\s+partir\s+du|à\s+compter\s+du|en|au)\s+)*/i;
+
+// Characters after the availability wording that are searched for a date
+const MAX_DATE_LENGTH = 40;
+
+// A date this far before the reference date is taken to mean next year's, e.g. "July 1st" in a
+// listing posted in December. Closer dates were probably left in a listing that's still up.
+const PAST_DATE_TOLERANCE_DAYS = 60;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Midnight UTC on the given day
+ */
+function toDay(year: number, month: number, day: number): Date {
+  return new Date(Date.UTC(year, month, day));
+}
+
+/**
+ * Builds the date for a day and month without a year, relative to the reference date
+ */
+function resolveYear(month: number, day: number, year: string | undefined, reference: Date): Date | undefined {
+  if (day < 1 || day > 31) {
+    return undefined;
+  }
+  if (year) {
+    return toDay(parseInt(year), month, day);
+  }
+  const date = toDay(reference.getUTCFullYear(), month, day);
+  return reference.getTime() - date.getTime() > PAST_DATE_TOLERANCE_DAYS * DAY_MS
+    ? toDay(reference.getUTCFullYear() + 1, month, day)
+    : date;
+}
+
+/**
+ * Parses the date at the start of an availability phrase, e.g. "now", "2025/07/01", "July 1st",
+ * "1er juillet", "mid-August", "next month" or "in 2 weeks"
+ * @param text The text following the availability wording
+ * @param reference The date relative dates count from
+ */
+function parseDateExpression(text: string, reference: Date): Date | undefined {
+  const today = toDay(reference.getUTCFullYear(), reference.getUTCMonth(), reference.getUTCDate());
+  const fragment = text.replace(CONNECTOR_PATTERN, '').substring(0, MAX_DATE_LENGTH).toLowerCase();
+  let match: RegExpMatchArray | null;
+
+  if (/^(?:now|immediately|asap|right\s+away|today|maintenant|immédiatement|immediatement|tout\s+de\s+suite|de\s+suite)\b/.test(fragment)) {
+    return today;
+  }
+  if (/^(?:tomorrow|demain)\b/.test(fragment)) {
+    return new Date(today.getTime() + DAY_MS);
+  }
+  if ((match = fragment.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})\b/))) {
+    return toDay(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3]));
+  }
+  // "July 1st", "Jul. 1, 2025"
+  if ((match = fragment.match(/^([a-zéû]+)\.?\s+(\d{1,2})(?:st|nd|rd|th)?\b(?:,?\s+(\d{4}))?/)) && MONTHS[match[1]] !== undefined) {
+    return resolveYear(MONTHS[match[1]], parseInt(match[2]), match[3], reference);
+  }
+  // "1st of July", "1er juillet 2025"
+  if ((match = fragment.match(/^(\d{1,2})(?:st|nd|rd|th|er)?\s+(?:of\s+)?([a-zéû]+)\.?(?:,?\s+(\d{4}))?/)) && MONTHS[match[2]] !== undefined) {
+    return resolveYear(MONTHS[match[2]], parseInt(match[1]), match[3], reference);
+  }
+  // "in 2 weeks", "dans 3 jours"
+  if ((match = fragment.match(/^(?:in|dans)\s+(\d{1,2})\s+(days?|jours?|weeks?|semaines?|months?|mois)\b/))) {
+    const count = parseInt(match[1]);
+    if (/^(?:day|jour)/.test(match[2])) return new Date(today.getTime() + count * DAY_MS);
+    if (/^(?:week|semaine)/.test(match[2])) return new Date(today.getTime() + count * 7 * DAY_MS);
+    return toDay(today.getUTCFullYear(), today.getUTCMonth() + count, today.getUTCDate());
+  }
+  // Leases start on the first, so the end of this month means the first of the next
+  if (/^(?:next\s+month|(?:the\s+)?end\s+of\s+(?:the\s+)?month|le\s+mois\s+prochain|(?:la\s+)?fin\s+du\s+mois)\b/.test(fragment)) {
+    return toDay(today.getUTCFullYear(), today.getUTCMonth() + 1, 1);
+  }
+  // "mid-August", "early September", "July", "juillet 2025"
+  if ((match = fragment.match(/^(?:(early|mid|late|début|debut|mi|fin)[\s-]+)?([a-zéû]+)\.?(?:\s+(\d{4}))?\b/)) && MONTHS[match[2]] !== undefined) {
+    const day = match[1] === 'mid' || match[1] === 'mi' ? 15 : match[1] === 'late' || match[1] === 'fin' ? 25 : 1;
+    return resolveYear(MONTHS[match[2]], day, match[3], reference);
+  }
+  return undefined;
+}
+
+/**
+ * Finds when a unit becomes available from wording such as "Available now", "Available
+ * 2025/07/01", "available July 1st", "move-in date: mid-August", "available in 2 weeks" or
+ * "disponible le 1er juillet". Relative dates count from the reference date, which should be when
+ * the listing was posted, or failing that when it was scraped, never when it's imported: a file
+ * imported again later must give the same dates.
+ * @param text The text to search, e.g. a field label or the description
+ * @param reference When the listing was posted or scraped
+ * @returns The availability date at midnight UTC, or undefined if the text doesn't say
+ */
+export function parseAvailability(text: string, reference: Date): Date | undefined {
+  for (const match of text.matchAll(AVAILABILITY_PATTERN)) {
+    const date = parseDateExpression(text.substring(match.index! + match[0].length), reference);
+    if (date && !isNaN(date.getTime())) {
+      return date;
+    }
+  }
+  return undefined;
+}
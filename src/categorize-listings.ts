@@ -1,16 +1,22 @@
 import { PrismaClient } from '@prisma/client';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import * as crypto from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
+import { ClassificationRequest, Classifier, getClassifierFromArgs, ListingForCategorization, RateLimitError } from './classifiers';
+import { getOption } from './cli';
+import { redactText } from './redaction';
 
 // Initialize Prisma client
 const prisma = new PrismaClient();
 
-// Initialize Gemini AI - You'll need to set GEMINI_API_KEY environment variable
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
+// The model that produced the categories stored before the Categorization table existed
+const LEGACY_MODEL_NAME = 'gemini-2.0-flash';
+
+// Label for the prompt in use; pass --prompt-version <name> when prompt.txt changes meaningfully
+const DEFAULT_PROMPT_VERSION = 'v1';
 
 // Valid categories based on prompt.txt
-const VALID_CATEGORIES = [
+export const VALID_CATEGORIES = [
   'airbnb',
   'studio apartment',
   '1bdr apartment',
@@ -23,24 +29,53 @@ const VALID_CATEGORIES = [
   'unknown'
 ];
 
-// Interface for listing data we need
-interface ListingForCategorization {
-  id: string;
-  listingTitle: string | null;
-  description: string | null;
-  price: any; // Decimal type from Prisma
-  bedrooms: number | null;
-  bathrooms: number | null;
-  amenities: string[];
-  petFriendly: boolean | null;
-  streetAddress: string | null;
-  city: string | null;
-  state: string | null;
+// Hash text so we can tell when a prompt or a listing's content has changed
+export function hashText(text: string): string {
+  return crypto.createHash('sha256').update(text).digest('hex').substring(0, 16);
+}
+
+// Hash the parts of a listing that the category is derived from
+export function hashListingContent(listing: { listingTitle: string | null; description: string | null }): string {
+  return hashText(`${listing.listingTitle || ''}\n${listing.description || ''}`);
 }
 
-// Read the prompt template
-async function getPromptTemplate(): Promise<string> {
-  const promptPath = path.join(__dirname, '..', 'prompt.txt');
+// Record categorizations made before the Categorization table existed as prompt v1 results,
+// so they aren't sent to the model again
+async function backfillLegacyCategorizations(): Promise<number> {
+  const legacyListings = await prisma.listing.findMany({
+    where: {
+      ai_category_v1: { not: '' },
+      categorizations: { none: {} }
+    },
+    select: {
+      id: true,
+      listingTitle: true,
+      description: true,
+      ai_category_v1: true
+    }
+  });
+  
+  if (legacyListings.length === 0) {
+    return 0;
+  }
+  
+  await prisma.categorization.createMany({
+    data: legacyListings.map((listing) => ({
+      listingId: listing.id,
+      category: listing.ai_category_v1!,
+      model: LEGACY_MODEL_NAME,
+      promptVersion: DEFAULT_PROMPT_VERSION,
+      contentHash: hashListingContent(listing)
+    }))
+  });
+  
+  return legacyListings.length;
+}
+
+// Read the prompt template: prompt.txt, or another file passed with --prompt-file <path>
+export async function getPromptTemplate(): Promise<string> {
+  const promptFile = getOption('--prompt-file');
+  const promptPath = promptFile ? path.resolve(promptFile) : path.join(__dirname, '..', 'prompt.txt');
   const promptContent = await fs.promises.readFile(promptPath, 'utf-8');
   return promptContent;
 }
@@ -49,7 +84,7 @@ async function getPromptTemplate(): Promise<string> {
 function formatListingsForPrompt(listings: ListingForCategorization[]): string {
   return listings.map((listing, index) => {
     const parts = [];
-    parts.push(`${index + 1}. ${listing.listingTitle || 'Untitled'}`);
+    parts.push(`${index + 1}. [${listing.id}] ${redactText(listing.listingTitle || 'Untitled')}`);
     
     if (listing.price) {
       parts.push(`Price: $${listing.price}/month`);
@@ -65,8 +100,9 @@ function formatListingsForPrompt(listings: ListingForCategorization[]): string {
     
     if (listing.description) {
       // Truncate description to first 200 chars to keep prompt size manageable
-      const truncatedDesc = listing.description.substring(0, 200);
-      parts.push(`Description: ${truncatedDesc}${listing.description.length > 200 ? '...' : ''}`);
+      const description = redactText(listing.description);
+      const truncatedDesc = description.substring(0, 200);
+      parts.push(`Description: ${truncatedDesc}${description.length > 200 ? '...' : ''}`);
     }
     
     if (listing.amenities.length > 0) {
@@ -77,94 +113,148 @@ function formatListingsForPrompt(listings: ListingForCategorization[]): string {
   }).join('\n');
 }
 
-// Parse and validate AI response
-function parseAIResponse(response: string, batchSize: number): string[] {
-  const lines = response.trim().split('\n');
-  const categories: string[] = [];
+// A validated category for one listing
+export interface CategoryResult {
+  category: string;
+  // The model's own confidence from 0 to 1, if it gave one
+  confidence: number | null;
+}
+
+// Categories for the listings a response covered, and the IDs it didn't cover or got wrong
+export interface BatchResult {
+  categories: Map<string, CategoryResult>;
+  failedIds: string[];
+}
+
+// Retries for a rate-limited request, and the delay before the first one; it doubles each time
+const MAX_RATE_LIMIT_RETRIES = 6;
+const INITIAL_BACKOFF_MS = 2000;
+
+// Appended to the prompt so every backend reads French listings the same way and answers in the same structured format
+const OUTPUT_FORMAT_INSTRUCTIONS = `
+Some listings are in French. Quebec listings give the number of rooms other than the bathroom plus a half for the bathroom: a 1 1/2 or 2 1/2 is a studio apartment, a 3 1/2 a 1bdr apartment, a 4 1/2 a 2bdr apartment, a 5 1/2 a 3bdr apartment, and so on. A "chambre à louer" is a bedroom.
+Respond only with a JSON object of the form {"categories": [{"id": "<listing id>", "category": "<category>", "confidence": <number from 0 to 1>}]}, with one entry per listing. The listing id is the value in square brackets before each listing's title. The category must be one of: ${VALID_CATEGORIES.join(', ')}.`;
+
+// Parse and validate AI response, keeping every valid entry even if others are missing or invalid
+function parseAIResponse(response: string, listings: ListingForCategorization[]): BatchResult {
+  const categories = new Map<string, CategoryResult>();
+  const expectedIds = new Set(listings.map((listing) => listing.id));
   
-  for (let i = 0; i < batchSize; i++) {
-    const line = lines[i];
-    if (!line) {
-      throw new Error(`Missing response for listing ${i + 1}. Expected ${batchSize} responses but got ${lines.length}`);
-    }
-    
-    // Extract category from line (handle formats like "1. studio apartment" or just "studio apartment")
-    const match = line.match(/^\d+\.\s*(.+)$/) || line.match(/^(.+)$/);
-    if (!match) {
-      throw new Error(`Invalid response format for listing ${i + 1}: "${line}"`);
+  // Some models wrap JSON in a Markdown code block despite being asked not to
+  const json = response.trim().replace(/^```(?:json)?\s*/, '').replace(/\s*```$/, '');
+  let entries: unknown[] = [];
+  try {
+    const parsed = JSON.parse(json);
+    entries = Array.isArray(parsed) ? parsed : Array.isArray(parsed?.categories) ? parsed.categories : [];
+  } catch (error) {
+    console.error(`Response is not valid JSON: ${(error as Error).message}`);
+  }
+  
+  for (const entry of entries) {
+    const { id, category, confidence } = (entry || {}) as { id?: unknown; category?: unknown; confidence?: unknown };
+    if (typeof id !== 'string' || !expectedIds.has(id) || categories.has(id)) {
+      continue;
     }
     
-    const category = match[1].trim().toLowerCase();
-    
-    // Validate category
-    if (!VALID_CATEGORIES.includes(category)) {
-      throw new Error(`Invalid category "${category}" for listing ${i + 1}. Valid categories are: ${VALID_CATEGORIES.join(', ')}`);
+    const normalizedCategory = typeof category === 'string' ? category.trim().toLowerCase() : '';
+    if (!VALID_CATEGORIES.includes(normalizedCategory)) {
+      console.error(`Invalid category "${category}" for listing ${id}`);
+      continue;
     }
     
-    categories.push(category);
+    categories.set(id, {
+      category: normalizedCategory,
+      confidence: typeof confidence === 'number' && confidence >= 0 && confidence <= 1 ? confidence : null
+    });
   }
   
-  if (categories.length !== batchSize) {
-    throw new Error(`Expected ${batchSize} categories but parsed ${categories.length}`);
+  return {
+    categories,
+    failedIds: listings.filter((listing) => !categories.has(listing.id)).map((listing) => listing.id)
+  };
+}
+
+// Send a request to the classifier, backing off exponentially while it's rate limited
+export async function classifyWithBackoff(classifier: Classifier, request: ClassificationRequest): Promise<string> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await classifier.classify(request);
+    } catch (error) {
+      if (!(error instanceof RateLimitError) || attempt >= MAX_RATE_LIMIT_RETRIES) {
+        throw error;
+      }
+      const delay = error.retryAfterMs ?? INITIAL_BACKOFF_MS * 2 ** attempt;
+      console.log(`Rate limited by ${classifier.name}; retrying in ${Math.round(delay / 1000)} seconds...`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
   }
-  
-  return categories;
 }
 
-// Process a batch of listings
-async function processBatch(listings: ListingForCategorization[], promptTemplate: string): Promise<Map<string, string>> {
-  const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
-  
+// Process a batch of listings. Listings the response missed or got wrong are retried on their
+// own; if nothing in the batch comes back valid, it's split in half and each half retried, down
+// to single listings, which are given up on until the next run.
+export async function processBatch(
+  classifier: Classifier,
+  listings: ListingForCategorization[],
+  promptTemplate: string
+): Promise<BatchResult> {
   // Format listings for the prompt
   const formattedListings = formatListingsForPrompt(listings);
   
   // Replace placeholder in template with actual listings
-  const prompt = promptTemplate.replace('[insert listings, numbered]', formattedListings);
+  const prompt = promptTemplate.replace('[insert listings, numbered]', formattedListings) + OUTPUT_FORMAT_INSTRUCTIONS;
   
-  console.log(`Sending batch of ${listings.length} listings to Gemini...`);
+  console.log(`Sending batch of ${listings.length} listings to ${classifier.name} (${classifier.model})...`);
   
+  let result: BatchResult;
   try {
-    // Generate content
-    const result = await model.generateContent(prompt);
-    const response = result.response.text();
-    
-    console.log('Received response:', response);
-    
-    // Parse and validate response
-    const categories = parseAIResponse(response, listings.length);
-    
-    // Create map of listing ID to category
-    const categoryMap = new Map<string, string>();
-    listings.forEach((listing, index) => {
-      categoryMap.set(listing.id, categories[index]);
-    });
-    
-    return categoryMap;
+    const response = await classifyWithBackoff(classifier, { task: 'categorize', prompt, listings });
+    result = parseAIResponse(response, listings);
   } catch (error) {
     console.error('Error processing batch:', error);
-    throw error;
+    result = { categories: new Map(), failedIds: listings.map((listing) => listing.id) };
+  }
+  
+  if (result.failedIds.length === 0 || listings.length === 1) {
+    return result;
   }
+  
+  const failed = listings.filter((listing) => result.failedIds.includes(listing.id));
+  const retries = failed.length === listings.length
+    ? [failed.slice(0, Math.ceil(failed.length / 2)), failed.slice(Math.ceil(failed.length / 2))]
+    : [failed];
+  console.log(`Retrying ${failed.length} of ${listings.length} listings${retries.length > 1 ? ' in two halves' : ''}...`);
+  
+  result.failedIds = [];
+  for (const retry of retries) {
+    const retryResult = await processBatch(classifier, retry, promptTemplate);
+    retryResult.categories.forEach((value, id) => result.categories.set(id, value));
+    result.failedIds.push(...retryResult.failedIds);
+  }
+  return result;
 }
 
 // Main function
 async function categorizeAllListings() {
   try {
-    // Check for API key
-    if (!process.env.GEMINI_API_KEY) {
-      throw new Error('GEMINI_API_KEY environment variable is not set. Set it by running: export GEMINI_API_KEY="your-api-key-here"');
-    }
+    // Pick the backend; this fails early if it isn't configured, e.g. without GEMINI_API_KEY
+    const classifier = getClassifierFromArgs();
     
     // Get prompt template
     const promptTemplate = await getPromptTemplate();
+    const promptVersion = getOption('--prompt-version') || DEFAULT_PROMPT_VERSION;
+    const promptHash = hashText(promptTemplate);
+    console.log(`Using prompt version ${promptVersion} (hash ${promptHash}) with ${classifier.name} (${classifier.model})`);
+    
+    const backfilled = await backfillLegacyCategorizations();
+    if (backfilled > 0) {
+      console.log(`Recorded ${backfilled} existing categories as prompt version ${DEFAULT_PROMPT_VERSION}`);
+    }
     
-    // Get all listings that need categorization
-    const listings = await prisma.listing.findMany({
-      where: {
-        OR: [
-          { ai_category_v1: '' },
-          { ai_category_v1: null }
-        ]
-      },
+    // Get all listings along with their latest categorization under this prompt version
+    // Categories set by a reviewer are never overwritten
+    const candidates = await prisma.listing.findMany({
+      where: { categoryLocked: false },
       select: {
         id: true,
         listingTitle: true,
@@ -176,10 +266,23 @@ async function categorizeAllListings() {
         petFriendly: true,
         streetAddress: true,
         city: true,
-        state: true
+        state: true,
+        categorizations: {
+          where: { promptVersion },
+          orderBy: { createdAt: 'desc' },
+          take: 1,
+          select: { contentHash: true }
+        }
       }
     });
     
+    // Only listings never categorized with this prompt version, or whose title or
+    // description changed since, need to go to the model
+    const listings = candidates.filter((listing) => {
+      const latest = listing.categorizations[0];
+      return !latest || latest.contentHash !== hashListingContent(listing);
+    });
+    
     console.log(`Found ${listings.length} listings to categorize`);
     
     if (listings.length === 0) {
@@ -197,25 +300,35 @@ async function categorizeAllListings() {
       console.log(`\nProcessing batch ${Math.floor(i / batchSize) + 1} of ${Math.ceil(listings.length / batchSize)}`);
       
       try {
-        // Process batch
-        const categoryMap = await processBatch(batch, promptTemplate);
+        // Process batch; listings that still fail after retries are left for the next run
+        const { categories, failedIds } = await processBatch(classifier, batch, promptTemplate);
         
-        // Update database
-        for (const [listingId, category] of categoryMap.entries()) {
-          await prisma.listing.update({
-            where: { id: listingId },
-            data: { ai_category_v1: category }
-          });
+        // Record each categorization and mirror it onto the listing
+        for (const listing of batch) {
+          const result = categories.get(listing.id);
+          if (!result) continue;
+          await prisma.$transaction([
+            prisma.categorization.create({
+              data: {
+                listingId: listing.id,
+                category: result.category,
+                confidence: result.confidence,
+                model: classifier.model,
+                promptVersion,
+                promptHash,
+                contentHash: hashListingContent(listing)
+              }
+            }),
+            prisma.listing.updateMany({
+              where: { id: listing.id, categoryLocked: false },
+              data: { ai_category_v1: result.category }
+            })
+          ]);
           totalProcessed++;
         }
         
-        console.log(`Successfully categorized ${batch.length} listings`);
-        
-        // Add a small delay between batches to avoid rate limiting
-        if (i + batchSize < listings.length) {
-          console.log('Waiting 2 seconds before next batch...');
-          await new Promise(resolve => setTimeout(resolve, 2000));
-        }
+        totalErrors += failedIds.length;
+        console.log(`Successfully categorized ${categories.size} listings${failedIds.length > 0 ? `, ${failedIds.length} failed` : ''}`);
         
       } catch (error) {
         console.error(`Error processing batch starting at index ${i}:`, error);
@@ -239,12 +352,14 @@ async function categorizeAllListings() {
 }
 
 // Run the script
-categorizeAllListings()
-  .then(() => {
-    console.log('Categorization script completed');
-    process.exit(0);
-  })
-  .catch((error) => {
-    console.error('Script failed:', error);
-    process.exit(1);
-  }); 
\ No newline at end of file
+if (require.main === module) {
+  categorizeAllListings()
+    .then(() => {
+      console.log('Categorization script completed');
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('Script failed:', error);
+      process.exit(1);
+    });
+} 
\ No newline at end of file
@@ -0,0 +1,36 @@
+import { GoogleGenerativeAI, GoogleGenerativeAIFetchError } from '@google/generative-ai';
+import { Classifier, RateLimitError } from './types';
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.0-flash';
+
+/**
+ * Creates a classifier backed by Google's Gemini API. Needs the GEMINI_API_KEY environment variable.
+ * @param model The Gemini model to use
+ * @throws If GEMINI_API_KEY isn't set
+ */
+export function createGeminiClassifier(model: string = DEFAULT_GEMINI_MODEL): Classifier {
+  if (!process.env.GEMINI_API_KEY) {
+    throw new Error('GEMINI_API_KEY environment variable is not set. Set it by running: export GEMINI_API_KEY="your-api-key-here"');
+  }
+  const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
+  const generativeModel = genAI.getGenerativeModel({
+    model,
+    generationConfig: { responseMimeType: 'application/json' }
+  });
+
+  return {
+    name: 'gemini',
+    model,
+    classify: async ({ prompt }) => {
+      try {
+        const result = await generativeModel.generateContent(prompt);
+        return result.response.text();
+      } catch (error) {
+        if (error instanceof GoogleGenerativeAIFetchError && error.status === 429) {
+          throw new RateLimitError(error.message);
+        }
+        throw error;
+      }
+    }
+  };
+}
@@ -0,0 +1,37 @@
+import { getOption } from '../cli';
+import { createGeminiClassifier } from './gemini';
+import { createOfflineClassifier } from './offline';
+import { createOpenAICompatibleClassifier } from './openai-compatible';
+import { Classifier } from './types';
+
+export { ClassificationRequest, ClassificationTask, Classifier, ListingForCategorization, RateLimitError } from './types';
+
+// Backends selectable with --backend
+export const CLASSIFIER_BACKENDS = ['gemini', 'openai', 'offline'];
+
+/**
+ * Creates a classifier for a backend
+ * @param backend One of CLASSIFIER_BACKENDS
+ * @param model The model to use, or undefined for the backend's default
+ * @throws If the backend is unknown or isn't configured
+ */
+export function createClassifier(backend: string, model?: string): Classifier {
+  switch (backend) {
+    case 'gemini':
+      return createGeminiClassifier(model);
+    case 'openai':
+      return createOpenAICompatibleClassifier(model);
+    case 'offline':
+      return createOfflineClassifier();
+    default:
+      throw new Error(`Unknown classifier backend "${backend}". Valid backends are: ${CLASSIFIER_BACKENDS.join(', ')}`);
+  }
+}
+
+/**
+ * Creates the classifier chosen on the command line with `--backend <name>` and `--model <name>`,
+ * defaulting to Gemini
+ */
+export function getClassifierFromArgs(): Classifier {
+  return createClassifier(getOption('--backend') || 'gemini', getOption('--model'));
+}
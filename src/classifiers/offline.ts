@@ -0,0 +1,55 @@
+import { parseQuebecRoomCount } from '../language';
+import { Classifier, ListingForCategorization } from './types';
+
+export const OFFLINE_MODEL = 'keyword-rules-v1';
+
+// Wording checked in order; the first match decides the category
+const CATEGORY_PATTERNS: { pattern: RegExp; category: string }[] = [
+  { pattern: /\bairbnb\b|\bnightly\b|\bper\s+night\b|\/\s*night\b|\bshort[\s-]term\b/i, category: 'airbnb' },
+  { pattern: /\bshared\s+room\b|\bbunk\b|\bbed\s+in\s+(?:a\s+)?shared\b/i, category: 'bed' },
+  { pattern: /\broom\s+(?:for\s+rent|available)\b|\bprivate\s+(?:bed)?room\b|\broommates?\b|\bshared\s+(?:kitchen|bath(?:room)?|house|accommodation)\b|\bchambre\s+(?:à|a)\s+louer\b|\bcolocation\b|\bcolocataires?\b/i, category: 'bedroom' },
+  { pattern: /\bstudio\b|\bbachelor\b|\bgarçonnière\b/i, category: 'studio apartment' }
+];
+
+// A bedroom count in text, e.g. "2 bed", "3bdr", "1 br" or "2 bedroom"
+const BEDROOM_COUNT_PATTERN = /\b(\d)\s*(?:bed(?:room)?s?|bdr?m?s?|br)\b/i;
+
+/**
+ * Categorizes a listing from keywords and its bedroom count. Keyword matches are more reliable
+ * than a bare bedroom count, which is reflected in the confidence.
+ */
+function categorizeListing(listing: ListingForCategorization): { category: string; confidence: number } {
+  const text = `${listing.listingTitle || ''}\n${listing.description || ''}`;
+
+  for (const { pattern, category } of CATEGORY_PATTERNS) {
+    if (pattern.test(text)) return { category, confidence: 0.6 };
+  }
+
+  const match = text.match(BEDROOM_COUNT_PATTERN);
+  const bedrooms = listing.bedrooms ?? (match ? parseInt(match[1]) : parseQuebecRoomCount(text) ?? null);
+  if (bedrooms === 0) return { category: 'studio apartment', confidence: 0.5 };
+  if (bedrooms) return { category: `${Math.min(bedrooms, 4)}bdr apartment`, confidence: 0.5 };
+
+  return { category: 'unknown', confidence: 0.1 };
+}
+
+/**
+ * Creates a deterministic classifier that runs without a model, using keyword rules. It's much
+ * less accurate than a language model, but needs no network or API key, so the categorization
+ * pipeline can be run and tested anywhere. It extracts no attributes: the rule-based pass of
+ * `npm run extract-attributes` already covers what keywords can find.
+ */
+export function createOfflineClassifier(): Classifier {
+  return {
+    name: 'offline',
+    model: OFFLINE_MODEL,
+    classify: async ({ task, listings }) => {
+      if (task === 'extract-attributes') {
+        return JSON.stringify({ attributes: [] });
+      }
+      return JSON.stringify({
+        categories: listings.map((listing) => ({ id: listing.id, ...categorizeListing(listing) }))
+      });
+    }
+  };
+}
@@ -0,0 +1,62 @@
+import { Classifier, RateLimitError } from './types';
+
+// Ollama's OpenAI-compatible endpoint; llama.cpp's server listens on http://localhost:8080/v1
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+export const DEFAULT_OPENAI_MODEL = 'llama3.1';
+
+// The parts of a chat completion response we read
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string } }[];
+}
+
+/**
+ * Creates a classifier that calls any server implementing OpenAI's chat completions API: OpenAI
+ * itself, or a local Ollama or llama.cpp server. OPENAI_BASE_URL and OPENAI_API_KEY configure the
+ * server; local servers usually don't need a key.
+ * @param model The model name the server knows the model by
+ * @param baseUrl The API's base URL, up to and including `/v1`
+ */
+export function createOpenAICompatibleClassifier(
+  model: string = DEFAULT_OPENAI_MODEL,
+  baseUrl: string = process.env.OPENAI_BASE_URL || DEFAULT_OPENAI_BASE_URL
+): Classifier {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (process.env.OPENAI_API_KEY) {
+    headers.Authorization = `Bearer ${process.env.OPENAI_API_KEY}`;
+  }
+
+  return {
+    name: 'openai',
+    model,
+    classify: async ({ prompt }) => {
+      const response = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model,
+          messages: [{ role: 'user', content: prompt }],
+          response_format: { type: 'json_object' },
+          temperature: 0
+        })
+      });
+      if (response.status === 429) {
+        // Retry-After is in seconds
+        const retryAfter = parseFloat(response.headers.get('retry-after') || '');
+        throw new RateLimitError(
+          `${baseUrl} rate limited the request: ${await response.text()}`,
+          isNaN(retryAfter) ? undefined : retryAfter * 1000
+        );
+      }
+      if (!response.ok) {
+        throw new Error(`${baseUrl} responded with ${response.status}: ${await response.text()}`);
+      }
+
+      const body = (await response.json()) as ChatCompletionResponse;
+      const content = body.choices?.[0]?.message?.content;
+      if (content === undefined) {
+        throw new Error(`${baseUrl} returned no completion`);
+      }
+      return content;
+    }
+  };
+}
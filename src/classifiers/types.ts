@@ -0,0 +1,49 @@
+import { Prisma } from '@prisma/client';
+
+// Interface for listing data we need
+export interface ListingForCategorization {
+  id: string;
+  listingTitle: string | null;
+  description: string | null;
+  price: Prisma.Decimal;
+  bedrooms: number | null;
+  bathrooms: number | null;
+  amenities: string[];
+  petFriendly: boolean | null;
+  streetAddress: string | null;
+  city: string | null;
+  state: string | null;
+}
+
+// What a request asks the model for: categories, or the attributes in ListingAttributes
+export type ClassificationTask = 'categorize' | 'extract-attributes';
+
+// A batch of listings to categorize or extract attributes from, along with the prompt built from them
+export interface ClassificationRequest {
+  task: ClassificationTask;
+  // The prompt with the listings and the output format filled in
+  prompt: string;
+  // The listings in the order they appear in the prompt
+  listings: ListingForCategorization[];
+}
+
+// A model that categorizes listings, whichever vendor or server runs it
+export interface Classifier {
+  // The backend, e.g. `gemini`, shown in logs
+  name: string;
+  // Stored in Categorization.model
+  model: string;
+  // Returns the model's raw reply: a JSON object in the format the prompt asks for, e.g.
+  // {"categories": [{"id": "...", "category": "...", "confidence": 0.9}]} when categorizing
+  classify(request: ClassificationRequest): Promise<string>;
+}
+
+/**
+ * Thrown by a classifier when the backend rejects a request for exceeding its rate limit or quota
+ */
+export class RateLimitError extends Error {
+  constructor(message: string, public retryAfterMs?: number) {
+    super(message);
+    this.name = 'RateLimitError';
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Checks whether a flag such as `--force` was passed on the command line
+ * @param name The flag, including its leading dashes
+ */
+export function hasFlag(name: string): boolean {
+  return process.argv.includes(name);
+}
+
+/**
+ * Gets the value passed after an option such as `--only <glob>`
+ * @param name The option, including its leading dashes
+ * @returns The value, or undefined if the option wasn't passed
+ */
+export function getOption(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  if (index === -1 || index + 1 >= process.argv.length) {
+    return undefined;
+  }
+  return process.argv[index + 1];
+}
+
+/**
+ * Converts a glob such as `halifax:1-bedroom-apartments/dataset_*_2025-03-*` into a regular expression.
+ * `**` matches across directories, `*` and `?` within a single path segment.
+ * @param glob The glob pattern, using forward slashes
+ */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // `**/` also matches zero directories
+        const slash = glob[i + 2] === '/';
+        pattern += slash ? '(?:.*/)?' : '.*';
+        i += slash ? 2 : 1;
+      } else {
+        pattern += '[^/]*';
+      }
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
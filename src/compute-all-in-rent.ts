@@ -0,0 +1,67 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { getOption } from './cli';
+import { getExtraUtilityCost, loadUtilityCosts } from './utility-costs';
+
+// Initialize Prisma client
+const prisma = new PrismaClient();
+
+// Listings updated per transaction
+const BATCH_SIZE = 1000;
+
+/**
+ * Computes every listing's all-in rent: its monthly rent plus the estimated cost of the utilities
+ * it doesn't include, using the per-city costs in config/utility-costs.json (or the file passed
+ * with --config). Listings whose attributes haven't been extracted yet are left without one.
+ */
+async function computeAllInRent() {
+  const model = loadUtilityCosts(getOption('--config'));
+
+  const listings = await prisma.listing.findMany({
+    select: {
+      id: true,
+      city: true,
+      price: true,
+      monthlyRent: true,
+      utilityCost: true,
+      allInRent: true,
+      attributes: { select: { utilitiesIncluded: true } }
+    }
+  });
+
+  const updates: Prisma.PrismaPromise<unknown>[] = [];
+  let withoutAttributes = 0;
+  for (const listing of listings) {
+    if (!listing.attributes) {
+      withoutAttributes++;
+      continue;
+    }
+
+    // A listing that doesn't mention utilities is assumed to include none
+    const utilityCost = new Prisma.Decimal(getExtraUtilityCost(model, listing.city, listing.attributes.utilitiesIncluded).toFixed(2));
+    const allInRent = (listing.monthlyRent || listing.price).plus(utilityCost);
+    if (listing.utilityCost?.equals(utilityCost) && listing.allInRent?.equals(allInRent)) continue;
+
+    updates.push(prisma.listing.update({
+      where: { id: listing.id },
+      data: { utilityCost, allInRent }
+    }));
+  }
+
+  for (let i = 0; i < updates.length; i += BATCH_SIZE) {
+    await prisma.$transaction(updates.slice(i, i + BATCH_SIZE));
+  }
+
+  console.log(`\n===== ALL-IN RENT COMPLETE =====`);
+  console.log(`Listings updated: ${updates.length}`);
+  console.log(`Listings without extracted attributes: ${withoutAttributes}`);
+}
+
+if (require.main === module) {
+  computeAllInRent()
+    .then(() => prisma.$disconnect())
+    .catch((error) => {
+      console.error('All-in rent computation failed:', error);
+      prisma.$disconnect();
+      process.exit(1);
+    });
+}
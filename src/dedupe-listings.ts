@@ -0,0 +1,337 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { formatAddress, parseAddress } from './address';
+import { getStatsFilter } from './listing-filters';
+import { getBandKeys, getShingles, jaccardSimilarity, minHashSignature, normalizeText } from './text-similarity';
+
+// Initialize Prisma client
+const prisma = new PrismaClient();
+
+// MinHash signature size and band layout for finding similar descriptions
+const SIGNATURE_SIZE = 32;
+const ROWS_PER_BAND = 4;
+
+// Listings closer than this are treated as being at the same place
+const SAME_LOCATION_METERS = 25;
+
+// Pairs scoring at least this are the same unit
+const MATCH_THRESHOLD = 0.7;
+
+// Descriptions this similar are the same unit regardless of the other signals
+const NEAR_IDENTICAL_DESCRIPTION = 0.9;
+
+// Blocks larger than this (e.g. a busy downtown grid cell) are too coarse to compare pairwise
+const MAX_BLOCK_SIZE = 1000;
+
+// Interface for the listing data we compare
+interface ListingForDedup {
+  id: string;
+  city: string | null;
+  description: string | null;
+  streetAddress: string | null;
+  postalCode: string | null;
+  latitude: Prisma.Decimal | null;
+  longitude: Prisma.Decimal | null;
+  price: Prisma.Decimal;
+  monthlyRent: Prisma.Decimal | null;
+  firstSeenAt: Date | null;
+  lastSeenAt: Date | null;
+  delistedAt: Date | null;
+}
+
+// A listing with its comparison keys precomputed
+interface PreparedListing {
+  listing: ListingForDedup;
+  shingles: Set<string>;
+  address: string | null;
+  postalCode: string | null;
+}
+
+// The result of comparing two listings
+interface MatchResult {
+  score: number;
+  reasons: string[];
+}
+
+/**
+ * Normalizes a street address for comparison, e.g. "123 Main Street, Unit 4" and "4-123 main st."
+ * match
+ */
+function normalizeAddress(address: string | null): string | null {
+  const parsed = parseAddress(address);
+  return parsed ? formatAddress(parsed) : null;
+}
+
+/**
+ * Normalizes a postal code, keeping only full six-character Canadian codes; a bare FSA covers
+ * too many buildings to be evidence of anything
+ */
+function normalizePostalCode(postalCode: string | null): string | null {
+  const normalized = (postalCode || '').toUpperCase().replace(/\s/g, '');
+  return /^[A-Z]\d[A-Z]\d[A-Z]\d$/.test(normalized) ? normalized : null;
+}
+
+/**
+ * Distance in metres between two coordinates
+ */
+function haversineMeters(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 6371000 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * Whether two listings were up at the same time
+ */
+function wereActiveTogether(a: ListingForDedup, b: ListingForDedup): boolean {
+  if (!a.firstSeenAt || !b.firstSeenAt) {
+    return false;
+  }
+  const aEnd = a.delistedAt || a.lastSeenAt || a.firstSeenAt;
+  const bEnd = b.delistedAt || b.lastSeenAt || b.firstSeenAt;
+  return a.firstSeenAt <= bEnd && b.firstSeenAt <= aEnd;
+}
+
+/**
+ * Scores how likely two listings are to advertise the same unit
+ * @returns The score and the reasons behind it, or null if they are clearly different units
+ */
+function compareListings(a: PreparedListing, b: PreparedListing): MatchResult | null {
+  const reasons: string[] = [];
+  let score = 0;
+
+  const descriptionSimilarity = jaccardSimilarity(a.shingles, b.shingles);
+  if (descriptionSimilarity > 0) {
+    score += 0.6 * descriptionSimilarity;
+    reasons.push(`description_similarity:${descriptionSimilarity.toFixed(2)}`);
+  }
+
+  let sameLocation = false;
+  if (a.address && a.address === b.address) {
+    sameLocation = true;
+    reasons.push('same_address');
+  }
+  const { latitude: lat1, longitude: lon1 } = a.listing;
+  const { latitude: lat2, longitude: lon2 } = b.listing;
+  if (lat1 && lon1 && lat2 && lon2) {
+    const distance = haversineMeters(lat1.toNumber(), lon1.toNumber(), lat2.toNumber(), lon2.toNumber());
+    if (distance <= SAME_LOCATION_METERS) {
+      sameLocation = true;
+      reasons.push(`distance_m:${Math.round(distance)}`);
+    }
+  }
+  if (sameLocation) score += 0.15;
+
+  if (a.postalCode && a.postalCode === b.postalCode) {
+    score += 0.1;
+    reasons.push('same_postal_code');
+  }
+
+  const samePrice = a.listing.price.equals(b.listing.price);
+  if (samePrice) {
+    score += 0.15;
+    reasons.push('same_price');
+  }
+
+  // Property managers post several units with the same template; listings that were up at
+  // the same time at different prices are different units, not reposts
+  if (!samePrice && wereActiveTogether(a.listing, b.listing)) {
+    return null;
+  }
+
+  if (score >= MATCH_THRESHOLD || descriptionSimilarity >= NEAR_IDENTICAL_DESCRIPTION) {
+    return { score: Math.round(score * 1000) / 1000, reasons };
+  }
+  return null;
+}
+
+/**
+ * Finds pairs of listings in the same city worth comparing: those sharing an address, a postal
+ * code, a location grid cell, or a band of their description's MinHash signature
+ */
+function findCandidatePairs(listings: PreparedListing[]): [number, number][] {
+  const blocks = new Map<string, number[]>();
+  const addToBlock = (key: string, index: number) => {
+    const block = blocks.get(key);
+    if (block) block.push(index);
+    else blocks.set(key, [index]);
+  };
+
+  listings.forEach((prepared, index) => {
+    const city = (prepared.listing.city || '').toLowerCase();
+    if (prepared.address) addToBlock(`${city}|address|${prepared.address}`, index);
+    if (prepared.postalCode) addToBlock(`${city}|postal|${prepared.postalCode}`, index);
+
+    const { latitude, longitude } = prepared.listing;
+    if (latitude && longitude) {
+      // Cells of roughly 100m; neighbouring cells are covered by the address and postal code blocks
+      addToBlock(`${city}|cell|${latitude.toFixed(3)},${longitude.toFixed(3)}`, index);
+    }
+
+    if (prepared.shingles.size > 0) {
+      const signature = minHashSignature(prepared.shingles, SIGNATURE_SIZE);
+      for (const band of getBandKeys(signature, ROWS_PER_BAND)) {
+        addToBlock(`${city}|band|${band}`, index);
+      }
+    }
+  });
+
+  const seen = new Set<string>();
+  const pairs: [number, number][] = [];
+  for (const block of blocks.values()) {
+    if (block.length > MAX_BLOCK_SIZE) continue;
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const key = `${block[i]},${block[j]}`;
+        if (!seen.has(key)) {
+          seen.add(key);
+          pairs.push([block[i], block[j]]);
+        }
+      }
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Finds the representative of an element's cluster, compressing the path along the way
+ */
+function findRoot(parents: number[], index: number): number {
+  while (parents[index] !== index) {
+    parents[index] = parents[parents[index]];
+    index = parents[index];
+  }
+  return index;
+}
+
+// Main function
+async function dedupeListings() {
+  // Flagged listings aren't real units, so they're left out unless --include-flagged is passed
+  const listings: ListingForDedup[] = await prisma.listing.findMany({
+    where: getStatsFilter(),
+    select: {
+      id: true,
+      city: true,
+      description: true,
+      streetAddress: true,
+      postalCode: true,
+      latitude: true,
+      longitude: true,
+      price: true,
+      monthlyRent: true,
+      firstSeenAt: true,
+      lastSeenAt: true,
+      delistedAt: true
+    },
+    orderBy: [{ firstSeenAt: 'asc' }, { id: 'asc' }]
+  });
+  console.log(`Comparing ${listings.length} listings...`);
+
+  const prepared: PreparedListing[] = listings.map((listing) => ({
+    listing,
+    shingles: getShingles(normalizeText(listing.description || '')),
+    address: normalizeAddress(listing.streetAddress),
+    postalCode: normalizePostalCode(listing.postalCode)
+  }));
+
+  const pairs = findCandidatePairs(prepared);
+  console.log(`Scoring ${pairs.length} candidate pairs...`);
+
+  // Cluster matching listings with union-find
+  const parents = listings.map((_, index) => index);
+  const matches: Prisma.ListingMatchCreateManyInput[] = [];
+  for (const [i, j] of pairs) {
+    const match = compareListings(prepared[i], prepared[j]);
+    if (!match) continue;
+
+    matches.push({
+      listingId: listings[i].id,
+      matchedListingId: listings[j].id,
+      score: match.score,
+      reasons: match.reasons
+    });
+
+    const rootI = findRoot(parents, i);
+    const rootJ = findRoot(parents, j);
+    // Listings are sorted by first sighting, so the lower index is the earlier listing
+    if (rootI !== rootJ) parents[Math.max(rootI, rootJ)] = Math.min(rootI, rootJ);
+  }
+  console.log(`Found ${matches.length} matching pairs`);
+
+  const clusters = new Map<number, number[]>();
+  listings.forEach((_, index) => {
+    const root = findRoot(parents, index);
+    const cluster = clusters.get(root);
+    if (cluster) cluster.push(index);
+    else clusters.set(root, [index]);
+  });
+
+  // Replace the match audit trail, then record every unit
+  await prisma.listingMatch.deleteMany();
+  await prisma.listingMatch.createMany({ data: matches });
+
+  // Listings left out of this run, e.g. flagged since the last one, no longer belong to a unit, so
+  // their old units are removed below rather than kept with stale counts and dates. With
+  // --include-flagged the filter is empty and every listing was clustered.
+  const processedFilter = getStatsFilter();
+  let released = 0;
+  if (Object.keys(processedFilter).length > 0) {
+    released = (await prisma.listing.updateMany({
+      where: { unitId: { not: null }, NOT: processedFilter },
+      data: { unitId: null }
+    })).count;
+  }
+
+  for (const [root, members] of clusters) {
+    const unitListings = members.map((index) => listings[index]);
+    const lastSeen = unitListings.reduce((latest, listing) =>
+      (listing.lastSeenAt?.getTime() || 0) > (latest.lastSeenAt?.getTime() || 0) ? listing : latest
+    );
+    const firstSeenAt = listings[root].firstSeenAt;
+    const stillListed = unitListings.some((listing) => !listing.delistedAt);
+
+    const data = {
+      city: listings[root].city,
+      monthlyRent: lastSeen.monthlyRent || lastSeen.price,
+      listingCount: unitListings.length,
+      firstSeenAt,
+      lastSeenAt: lastSeen.lastSeenAt,
+      delistedAt: stillListed ? null : lastSeen.delistedAt
+    };
+
+    // In one transaction, so a failure can't leave a unit with only some of its listings
+    await prisma.$transaction(async (tx) => {
+      const unit = await tx.unit.upsert({
+        where: { canonicalListingId: listings[root].id },
+        create: { canonicalListingId: listings[root].id, ...data },
+        update: data
+      });
+      await tx.listing.updateMany({
+        where: { id: { in: unitListings.map((listing) => listing.id) } },
+        data: { unitId: unit.id }
+      });
+    });
+  }
+
+  // Units whose canonical listing now belongs to another unit, or whose listings were all left out, are gone
+  const removed = await prisma.unit.deleteMany({ where: { listings: { none: {} } } });
+
+  console.log(`\n===== DEDUPLICATION COMPLETE =====`);
+  console.log(`Listings: ${listings.length}`);
+  console.log(`Units: ${clusters.size}`);
+  console.log(`Listings that duplicate another: ${listings.length - clusters.size}`);
+  console.log(`Listings left out of this run and removed from their units: ${released}`);
+  console.log(`Stale units removed: ${removed.count}`);
+}
+
+if (require.main === module) {
+  dedupeListings()
+    .then(() => prisma.$disconnect())
+    .catch((error) => {
+      console.error('Deduplication failed:', error);
+      prisma.$disconnect();
+      process.exit(1);
+    });
+}
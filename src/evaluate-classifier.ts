@@ -0,0 +1,197 @@
+import { PrismaClient } from '@prisma/client';
+import { getClassifierFromArgs, ListingForCategorization } from './classifiers';
+import { getPromptTemplate, hashText, processBatch, VALID_CATEGORIES } from './categorize-listings';
+import { getOption } from './cli';
+
+// Initialize Prisma client
+const prisma = new PrismaClient();
+
+// Listings per request, as in the categorizer
+const BATCH_SIZE = 50;
+
+// Predicted category recorded when the model gave no valid answer for a listing
+const UNANSWERED = '(none)';
+
+// Previous runs shown for comparison
+const PREVIOUS_RUNS_SHOWN = 5;
+
+// Precision, recall and support for one category; a type rather than an interface so it can be stored as JSON
+type CategoryMetrics = {
+  precision: number | null;
+  recall: number | null;
+  // Gold labels with this category
+  support: number;
+};
+
+/**
+ * Builds the confusion matrix of gold against predicted categories
+ * @param pairs Gold and predicted category for each listing
+ * @returns Counts keyed by gold category, then by predicted category
+ */
+function buildConfusionMatrix(pairs: { gold: string; predicted: string }[]): Record<string, Record<string, number>> {
+  const matrix: Record<string, Record<string, number>> = {};
+  for (const gold of VALID_CATEGORIES) {
+    matrix[gold] = {};
+    for (const predicted of [...VALID_CATEGORIES, UNANSWERED]) {
+      matrix[gold][predicted] = 0;
+    }
+  }
+  for (const { gold, predicted } of pairs) {
+    matrix[gold][predicted]++;
+  }
+  return matrix;
+}
+
+/**
+ * Computes precision and recall per category from a confusion matrix. Precision is null for a
+ * category that was never predicted, and recall for one with no gold labels.
+ */
+function computeCategoryMetrics(matrix: Record<string, Record<string, number>>): Record<string, CategoryMetrics> {
+  const metrics: Record<string, CategoryMetrics> = {};
+  for (const category of VALID_CATEGORIES) {
+    const truePositives = matrix[category][category];
+    const support = Object.values(matrix[category]).reduce((sum, count) => sum + count, 0);
+    const predicted = VALID_CATEGORIES.reduce((sum, gold) => sum + matrix[gold][category], 0);
+    metrics[category] = {
+      precision: predicted > 0 ? truePositives / predicted : null,
+      recall: support > 0 ? truePositives / support : null,
+      support
+    };
+  }
+  return metrics;
+}
+
+/**
+ * Formats a ratio as a percentage, or a dash if it's undefined
+ */
+function formatPercent(value: number | null): string {
+  return value === null ? '-' : `${(value * 100).toFixed(1)}%`;
+}
+
+/**
+ * Prints the confusion matrix with gold categories as rows and predictions as columns, leaving
+ * out categories that appear in neither
+ */
+function printConfusionMatrix(matrix: Record<string, Record<string, number>>) {
+  const rows = VALID_CATEGORIES.filter((gold) => Object.values(matrix[gold]).some((count) => count > 0));
+  const columns = [...VALID_CATEGORIES, UNANSWERED].filter((predicted) =>
+    VALID_CATEGORIES.some((gold) => matrix[gold][predicted] > 0)
+  );
+  const labelWidth = Math.max(...rows.map((row) => row.length), 'gold \\ predicted'.length);
+  const columnWidths = columns.map((column) => Math.max(column.length, 4));
+
+  console.log([
+    'gold \\ predicted'.padEnd(labelWidth),
+    ...columns.map((column, index) => column.padStart(columnWidths[index]))
+  ].join('  '));
+  for (const row of rows) {
+    console.log([
+      row.padEnd(labelWidth),
+      ...columns.map((column, index) => String(matrix[row][column]).padStart(columnWidths[index]))
+    ].join('  '));
+  }
+}
+
+// Main function
+async function evaluateClassifier() {
+  const classifier = getClassifierFromArgs();
+  const promptTemplate = await getPromptTemplate();
+  const promptVersion = getOption('--prompt-version') || 'v1';
+  const promptHash = hashText(promptTemplate);
+
+  const allGoldLabels = await prisma.goldLabel.findMany({
+    include: {
+      listing: {
+        select: {
+          id: true,
+          listingTitle: true,
+          description: true,
+          price: true,
+          bedrooms: true,
+          bathrooms: true,
+          amenities: true,
+          petFriendly: true,
+          streetAddress: true,
+          city: true,
+          state: true
+        }
+      }
+    },
+    orderBy: { listingId: 'asc' }
+  });
+  // Labels from an older category list can't be scored against the current one
+  const goldLabels = allGoldLabels.filter((label) => VALID_CATEGORIES.includes(label.category));
+  if (goldLabels.length < allGoldLabels.length) {
+    console.warn(`Skipping ${allGoldLabels.length - goldLabels.length} gold labels whose category is no longer valid`);
+  }
+  if (goldLabels.length === 0) {
+    throw new Error('The gold set is empty. Label some listings first with: npm run label');
+  }
+  console.log(`Evaluating ${classifier.name} (${classifier.model}) with prompt ${promptVersion} (hash ${promptHash}) on ${goldLabels.length} gold labels`);
+
+  const listings: ListingForCategorization[] = goldLabels.map((label) => label.listing);
+  const predictions: Record<string, string> = {};
+  for (let i = 0; i < listings.length; i += BATCH_SIZE) {
+    const { categories } = await processBatch(classifier, listings.slice(i, i + BATCH_SIZE), promptTemplate);
+    categories.forEach((result, id) => { predictions[id] = result.category; });
+  }
+
+  const pairs = goldLabels.map((label) => ({
+    gold: label.category,
+    predicted: predictions[label.listingId] || UNANSWERED
+  }));
+  const correct = pairs.filter(({ gold, predicted }) => gold === predicted).length;
+  const unansweredCount = pairs.filter(({ predicted }) => predicted === UNANSWERED).length;
+  // Unanswered listings count as wrong, so a model can't look better by failing on hard listings
+  const accuracy = correct / pairs.length;
+  const confusionMatrix = buildConfusionMatrix(pairs);
+  const categoryMetrics = computeCategoryMetrics(confusionMatrix);
+
+  const run = await prisma.evaluationRun.create({
+    data: {
+      backend: classifier.name,
+      model: classifier.model,
+      promptVersion,
+      promptHash,
+      listingCount: pairs.length,
+      unansweredCount,
+      accuracy,
+      categoryMetrics,
+      confusionMatrix,
+      predictions
+    }
+  });
+
+  console.log(`\n===== EVALUATION ${run.id} =====`);
+  console.log(`Accuracy: ${formatPercent(accuracy)} (${correct}/${pairs.length})`);
+  console.log(`Unanswered: ${unansweredCount}`);
+  console.log(`\n${'category'.padEnd(18)}${'precision'.padStart(10)}${'recall'.padStart(10)}${'support'.padStart(10)}`);
+  for (const category of VALID_CATEGORIES) {
+    const { precision, recall, support } = categoryMetrics[category];
+    console.log(`${category.padEnd(18)}${formatPercent(precision).padStart(10)}${formatPercent(recall).padStart(10)}${String(support).padStart(10)}`);
+  }
+  console.log('');
+  printConfusionMatrix(confusionMatrix);
+
+  const previousRuns = await prisma.evaluationRun.findMany({
+    where: { id: { not: run.id } },
+    orderBy: { createdAt: 'desc' },
+    take: PREVIOUS_RUNS_SHOWN
+  });
+  if (previousRuns.length > 0) {
+    console.log('\nPrevious runs:');
+    for (const previous of previousRuns) {
+      console.log(`  #${previous.id} ${previous.createdAt.toISOString().substring(0, 10)} ${previous.backend} (${previous.model}) prompt ${previous.promptVersion}: ${formatPercent(previous.accuracy)} on ${previous.listingCount}`);
+    }
+  }
+}
+
+if (require.main === module) {
+  evaluateClassifier()
+    .then(() => prisma.$disconnect())
+    .catch((error) => {
+      console.error('Evaluation failed:', error);
+      prisma.$disconnect();
+      process.exit(1);
+    });
+}
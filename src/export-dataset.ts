@@ -0,0 +1,300 @@
+import { ParquetSchema, ParquetType, ParquetWriter, SchemaDefinition } from '@dsnp/parquetjs';
+import { PrismaClient } from '@prisma/client';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getOption, hasFlag } from './cli';
+import { getFsa } from './geo';
+import { hashFile } from './import-manifest';
+import { getStatsFilter } from './listing-filters';
+import { countResidual, createRedactor, DEFAULT_COORDINATE_PRECISION, RedactionReport, Redactor, renderRedactionReport } from './redaction';
+import {
+  ColumnType,
+  getTableDefinitions,
+  ManifestFile,
+  REDACTION_REPORT_FILE,
+  ReleaseManifest,
+  RELEASES_DIR,
+  TableDefinition,
+  TableName
+} from './release-manifest';
+
+// Initialize Prisma client
+const prisma = new PrismaClient();
+
+// Rows read from the database at a time
+const PAGE_SIZE = 1000;
+
+// A value in an exported row
+type Value = string | number | boolean | Date | null;
+
+// A table of the dataset and where its rows come from
+interface Table extends TableDefinition {
+  rows: () => AsyncGenerator<Record<string, Value>>;
+}
+
+const PARQUET_TYPES: Record<ColumnType, ParquetType> = {
+  string: 'UTF8',
+  integer: 'INT64',
+  number: 'DOUBLE',
+  boolean: 'BOOLEAN',
+  datetime: 'TIMESTAMP_MILLIS'
+};
+
+/**
+ * Reads a model page by page in ID order, so large tables aren't loaded at once
+ * @param fetchPage Reads the page after a cursor, or the first page when it's undefined
+ */
+async function* paginate<T extends { id: string | number }>(fetchPage: (cursor: T['id'] | undefined) => Promise<T[]>): AsyncGenerator<T> {
+  let cursor: T['id'] | undefined;
+  while (true) {
+    const page = await fetchPage(cursor);
+    if (page.length === 0) return;
+    yield* page;
+    cursor = page[page.length - 1].id;
+  }
+}
+
+/**
+ * Defines where the published tables' rows come from. Only listings that count towards statistics
+ * are exported, and only the columns in release-manifest.ts, after the redactor has masked personal
+ * information in their text, reduced their address to the street and coarsened their coordinates.
+ */
+function getTables(redactor: Redactor): Table[] {
+  const rows: Record<TableName, Table['rows']> = {
+    listings: async function* () {
+      const listings = paginate((cursor: string | undefined) => prisma.listing.findMany({
+        where: getStatsFilter(),
+        orderBy: { id: 'asc' },
+        take: PAGE_SIZE,
+        ...(cursor ? { skip: 1, cursor: { id: cursor } } : {})
+      }));
+      for await (const listing of listings) {
+        const redacted = redactor.redactListing({
+          listingTitle: listing.listingTitle,
+          description: listing.description,
+          streetAddress: listing.streetAddress,
+          postalCode: listing.postalCode,
+          latitude: listing.latitude?.toNumber() ?? null,
+          longitude: listing.longitude?.toNumber() ?? null
+        });
+        yield {
+          id: listing.id,
+          source: listing.source,
+          title: redacted.listingTitle,
+          description: redacted.description,
+          language: listing.language,
+          city: listing.city,
+          province: listing.state,
+          street: redacted.street,
+          fsa: getFsa(listing.postalCode) ?? null,
+          latitude: redacted.latitude,
+          longitude: redacted.longitude,
+          category: listing.ai_category_v1,
+          category_reviewed: listing.categoryLocked,
+          price: listing.price.toNumber(),
+          billing_period: listing.billingPeriod,
+          price_per_person: listing.pricePerPerson,
+          monthly_rent: listing.monthlyRent?.toNumber() ?? null,
+          utility_cost: listing.utilityCost?.toNumber() ?? null,
+          all_in_rent: listing.allInRent?.toNumber() ?? null,
+          bedrooms: listing.bedrooms,
+          bathrooms: listing.bathrooms,
+          square_feet: listing.squareFeet,
+          pet_friendly: listing.petFriendly,
+          amenities: listing.amenities.join(';'),
+          available_date: listing.availableDate,
+          listed_date: listing.listedDate,
+          first_seen_at: listing.firstSeenAt,
+          last_seen_at: listing.lastSeenAt,
+          delisted_at: listing.delistedAt,
+          unit_id: listing.unitId
+        };
+      }
+    },
+    price_history: async function* () {
+      const history = paginate((cursor: number | undefined) => prisma.priceHistory.findMany({
+        where: { listing: getStatsFilter() },
+        orderBy: { id: 'asc' },
+        take: PAGE_SIZE,
+        ...(cursor ? { skip: 1, cursor: { id: cursor } } : {})
+      }));
+      for await (const row of history) {
+        yield {
+          listing_id: row.listingId,
+          price: row.price.toNumber(),
+          monthly_rent: row.monthlyRent?.toNumber() ?? null,
+          recorded_at: row.recordedAt
+        };
+      }
+    },
+    categories: async function* () {
+      const categorizations = paginate((cursor: number | undefined) => prisma.categorization.findMany({
+        where: { listing: getStatsFilter() },
+        orderBy: { id: 'asc' },
+        take: PAGE_SIZE,
+        ...(cursor ? { skip: 1, cursor: { id: cursor } } : {})
+      }));
+      for await (const row of categorizations) {
+        yield {
+          listing_id: row.listingId,
+          category: row.category,
+          confidence: row.confidence,
+          model: row.model,
+          prompt_version: row.promptVersion,
+          categorized_at: row.createdAt
+        };
+      }
+    }
+  };
+  return getTableDefinitions(redactor.coordinatePrecision).map((table) => ({ ...table, rows: rows[table.name] }));
+}
+
+/**
+ * Formats a value for CSV: dates as ISO 8601, empty for null, and quoted when it contains a
+ * comma, quote or line break
+ */
+function toCsvField(value: Value): string {
+  if (value === null) return '';
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Writes a table as both CSV and Parquet in a single pass over its rows
+ * @returns The number of rows written
+ */
+async function writeTable(table: Table, directory: string): Promise<number> {
+  const csv = fs.createWriteStream(path.join(directory, `${table.name}.csv`));
+  csv.write(table.columns.map((column) => column.name).join(',') + '\n');
+
+  const definition: SchemaDefinition = {};
+  for (const column of table.columns) {
+    definition[column.name] = { type: PARQUET_TYPES[column.type], optional: true };
+  }
+  const schema = new ParquetSchema(definition);
+  const parquet = await ParquetWriter.openFile(schema, path.join(directory, `${table.name}.parquet`));
+
+  let rows = 0;
+  for await (const row of table.rows()) {
+    const line = table.columns.map((column) => toCsvField(row[column.name])).join(',') + '\n';
+    // Respect backpressure so a large table isn't buffered in memory
+    if (!csv.write(line)) await new Promise<void>((resolve) => csv.once('drain', () => resolve()));
+
+    // Parquet leaves out missing values rather than storing nulls
+    const parquetRow: Record<string, unknown> = {};
+    for (const column of table.columns) {
+      const value = row[column.name];
+      if (value !== null && value !== undefined) parquetRow[column.name] = value;
+    }
+    await parquet.appendRow(parquetRow);
+    rows++;
+  }
+
+  await parquet.close();
+  await new Promise<void>((resolve, reject) => csv.end((error?: Error | null) => (error ? reject(error) : resolve())));
+  return rows;
+}
+
+/**
+ * Renders the data dictionary describing every table and column
+ */
+function renderDataDictionary(manifest: ReleaseManifest): string {
+  const lines = [
+    `# Better Rental Data ${manifest.version}`,
+    '',
+    `Created ${manifest.createdAt}. Each table is provided as CSV and Parquet. Phone numbers, email addresses, names, ` +
+      `URLs and civic and unit numbers are masked in listing text; see redaction-report.md for what was removed.`
+  ];
+  for (const table of manifest.tables) {
+    const rows = manifest.files.find((file) => file.table === table.name)?.rows ?? 0;
+    lines.push('', `## ${table.name}`, '', `${table.description}. ${rows} rows.`, '', '| Column | Type | Description |', '| --- | --- | --- |');
+    for (const column of table.columns) {
+      lines.push(`| ${column.name} | ${column.type} | ${column.description} |`);
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Exports the cleaned dataset to release/<version>/ as CSV and Parquet tables, with a data
+ * dictionary, a redaction report and a manifest of row counts and checksums, ready for
+ * `npm run upload-kaggle`. Listing text and locations go through the redactor on the way out.
+ */
+async function exportDataset() {
+  const version = getOption('--version') || new Date().toISOString().substring(0, 10);
+  if (!/^[\w.-]+$/.test(version)) {
+    throw new Error(`Invalid version "${version}"; use letters, digits, dots, dashes and underscores`);
+  }
+  const precisionOption = getOption('--coordinate-precision');
+  const coordinatePrecision = precisionOption !== undefined ? parseInt(precisionOption) : DEFAULT_COORDINATE_PRECISION;
+  if (!Number.isInteger(coordinatePrecision) || coordinatePrecision < 0 || coordinatePrecision > 6) {
+    throw new Error(`Invalid coordinate precision "${precisionOption}"; use a number of decimal places from 0 to 6`);
+  }
+  const directory = path.join(RELEASES_DIR, version);
+  if (fs.existsSync(directory)) {
+    if (!hasFlag('--force')) {
+      throw new Error(`Release ${version} already exists in ${directory}. Pass --force to replace it`);
+    }
+    await fs.promises.rm(directory, { recursive: true });
+  }
+  await fs.promises.mkdir(directory, { recursive: true });
+
+  const redactor = createRedactor(coordinatePrecision);
+  const tables = getTables(redactor);
+  const createdAt = new Date().toISOString();
+  const files: ManifestFile[] = [];
+
+  for (const table of tables) {
+    console.log(`Exporting ${table.name}...`);
+    const rows = await writeTable(table, directory);
+    for (const format of ['csv', 'parquet'] as const) {
+      const fileName = `${table.name}.${format}`;
+      const filePath = path.join(directory, fileName);
+      files.push({
+        path: fileName,
+        table: table.name,
+        format,
+        rows,
+        bytes: (await fs.promises.stat(filePath)).size,
+        sha256: await hashFile(filePath)
+      });
+    }
+    console.log(`Exported ${rows} rows of ${table.name}`);
+  }
+
+  const report: RedactionReport = redactor.getReport();
+  const reportPath = path.join(directory, REDACTION_REPORT_FILE);
+  await fs.promises.writeFile(reportPath, JSON.stringify(report, null, 2));
+  await fs.promises.writeFile(path.join(directory, 'redaction-report.md'), renderRedactionReport(report));
+
+  const manifest: ReleaseManifest = {
+    version,
+    createdAt,
+    tables: tables.map(({ name, description, columns }) => ({ name, description, columns })),
+    files,
+    redaction: { path: REDACTION_REPORT_FILE, sha256: await hashFile(reportPath), residual: countResidual(report) }
+  };
+  await fs.promises.writeFile(path.join(directory, 'data-dictionary.md'), renderDataDictionary(manifest));
+  await fs.promises.writeFile(path.join(directory, 'manifest.json'), JSON.stringify(manifest, null, 2));
+
+  console.log(`\n===== EXPORT COMPLETE =====`);
+  console.log(`Release: ${version}`);
+  for (const file of manifest.files.filter((file) => file.format === 'csv')) {
+    console.log(`${file.table}: ${file.rows} rows`);
+  }
+  console.log(`Listings redacted: ${report.listingsRedacted} of ${report.listings}`);
+  if (manifest.redaction.residual > 0) {
+    console.warn(`Warning: ${manifest.redaction.residual} detections were left after redaction; see ${REDACTION_REPORT_FILE}. This release won't be published`);
+  }
+  console.log(`Written to: ${directory}`);
+}
+
+if (require.main === module) {
+  exportDataset()
+    .then(() => prisma.$disconnect())
+    .catch((error) => {
+      console.error('Export failed:', error);
+      prisma.$disconnect();
+      process.exit(1);
+    });
+}
@@ -0,0 +1,237 @@
+import { PrismaClient } from '@prisma/client';
+import {
+  ExtractedAttributes,
+  extractAttributes,
+  LAUNDRY_TYPES,
+  LaundryType,
+  LEASE_TERMS,
+  LeaseTerm,
+  ListingForExtraction,
+  PARKING_TYPES,
+  ParkingType,
+  UTILITIES
+} from './attribute-extraction';
+import { classifyWithBackoff, hashListingContent } from './categorize-listings';
+import { Classifier, getClassifierFromArgs, ListingForCategorization } from './classifiers';
+import { hasFlag } from './cli';
+import { redactText } from './redaction';
+
+// Initialize Prisma client
+const prisma = new PrismaClient();
+
+// Listings per model request; descriptions are sent in full, so batches are smaller than when categorizing
+const BATCH_SIZE = 20;
+
+// Characters of each description sent to the model
+const MAX_DESCRIPTION_LENGTH = 2000;
+
+// Listing data needed both for the rules and for the model prompt
+type ListingToExtract = ListingForExtraction & ListingForCategorization;
+
+// Tells the model what to extract and how to answer
+const EXTRACTION_PROMPT = `Extract the following attributes from each rental listing below. Use null for anything the listing doesn't state; don't guess.
+- bedrooms: number of bedrooms, 0 for a studio or bachelor
+- bathrooms: number of bathrooms, counting a half bath as 0.5
+- furnished: true or false
+- utilitiesIncluded: which of ${UTILITIES.join(', ')} are included in the rent, as an array
+- parking: one of ${PARKING_TYPES.join(', ')} ("available" means at extra cost or on request)
+- laundry: one of ${LAUNDRY_TYPES.join(', ')}
+- leaseTerm: one of ${LEASE_TERMS.join(', ')}
+- petPolicy: one of allowed, not_allowed, unknown
+- isSublet: true if the listing is a sublet or lease takeover, false if it's from the landlord or manager
+
+Some listings are in French. A Quebec room count such as "4 1/2" counts the rooms other than the bathroom, so a 3 1/2 has 1 bedroom, a 4 1/2 has 2, and a 1 1/2 or 2 1/2 is a studio. "Chauffé" means heat is included and "éclairé" electricity.
+
+Respond only with a JSON object of the form {"attributes": [{"id": "<listing id>", "bedrooms": ..., "bathrooms": ..., "furnished": ..., "utilitiesIncluded": [...], "parking": ..., "laundry": ..., "leaseTerm": ..., "petPolicy": ..., "isSublet": ...}]}, with one entry per listing. The listing id is the value in square brackets before each listing.
+
+Listings:
+`;
+
+/**
+ * Builds the extraction prompt for a batch of listings
+ */
+function buildPrompt(listings: ListingToExtract[]): string {
+  return EXTRACTION_PROMPT + listings.map((listing) => {
+    const description = redactText(listing.description || '').substring(0, MAX_DESCRIPTION_LENGTH);
+    return `[${listing.id}] ${redactText(listing.listingTitle || 'Untitled')}\n${description}`;
+  }).join('\n\n');
+}
+
+/**
+ * Validates one listing's attributes from the model's reply, keeping only well-typed values
+ */
+function parseModelAttributes(entry: Record<string, unknown>): ExtractedAttributes {
+  const attributes: ExtractedAttributes = {};
+  const { bedrooms, bathrooms, furnished, utilitiesIncluded, parking, laundry, leaseTerm, petPolicy, isSublet } = entry;
+
+  if (typeof bedrooms === 'number' && Number.isInteger(bedrooms) && bedrooms >= 0 && bedrooms < 20) {
+    attributes.bedrooms = { value: bedrooms, source: 'model' };
+  }
+  if (typeof bathrooms === 'number' && bathrooms > 0 && bathrooms < 20 && Number.isInteger(bathrooms * 2)) {
+    attributes.bathrooms = { value: bathrooms, source: 'model' };
+  }
+  if (typeof furnished === 'boolean') attributes.furnished = { value: furnished, source: 'model' };
+  if (Array.isArray(utilitiesIncluded)) {
+    attributes.utilitiesIncluded = { value: UTILITIES.filter((utility) => utilitiesIncluded.includes(utility)), source: 'model' };
+  }
+  if (PARKING_TYPES.includes(parking as ParkingType)) attributes.parking = { value: parking as ParkingType, source: 'model' };
+  if (LAUNDRY_TYPES.includes(laundry as LaundryType)) attributes.laundry = { value: laundry as LaundryType, source: 'model' };
+  if (LEASE_TERMS.includes(leaseTerm as LeaseTerm)) attributes.leaseTerm = { value: leaseTerm as LeaseTerm, source: 'model' };
+  if (petPolicy === 'allowed' || petPolicy === 'not_allowed') attributes.petPolicy = { value: petPolicy, source: 'model' };
+  if (typeof isSublet === 'boolean') attributes.isSublet = { value: isSublet, source: 'model' };
+
+  return attributes;
+}
+
+/**
+ * Asks the model for the attributes of a batch of listings
+ * @returns Attributes by listing ID, with listings the model didn't answer for validly missing, or
+ * null if the request failed
+ */
+async function extractWithModel(classifier: Classifier, listings: ListingToExtract[]): Promise<Map<string, ExtractedAttributes> | null> {
+  const results = new Map<string, ExtractedAttributes>();
+  const expectedIds = new Set(listings.map((listing) => listing.id));
+
+  try {
+    const response = await classifyWithBackoff(classifier, {
+      task: 'extract-attributes',
+      prompt: buildPrompt(listings),
+      listings
+    });
+    const json = response.trim().replace(/^```(?:json)?\s*/, '').replace(/\s*```$/, '');
+    const parsed = JSON.parse(json);
+    const entries: unknown[] = Array.isArray(parsed?.attributes) ? parsed.attributes : [];
+
+    for (const entry of entries) {
+      const fields = (entry || {}) as Record<string, unknown>;
+      if (typeof fields.id === 'string' && expectedIds.has(fields.id) && !results.has(fields.id)) {
+        results.set(fields.id, parseModelAttributes(fields));
+      }
+    }
+  } catch (error) {
+    console.error('Error extracting attributes with the model:', error);
+    return null;
+  }
+
+  return results;
+}
+
+/**
+ * Copies one attribute from another extraction
+ */
+function fillAttribute<K extends keyof ExtractedAttributes>(target: ExtractedAttributes, source: ExtractedAttributes, key: K) {
+  target[key] = source[key];
+}
+
+/**
+ * Converts extracted attributes into ListingAttributes columns
+ */
+function toAttributesRecord(attributes: ExtractedAttributes) {
+  return {
+    bedrooms: attributes.bedrooms?.value ?? null,
+    bedroomsSource: attributes.bedrooms?.source ?? null,
+    bathrooms: attributes.bathrooms?.value ?? null,
+    bathroomsSource: attributes.bathrooms?.source ?? null,
+    furnished: attributes.furnished?.value ?? null,
+    furnishedSource: attributes.furnished?.source ?? null,
+    utilitiesIncluded: attributes.utilitiesIncluded?.value ?? [],
+    utilitiesSource: attributes.utilitiesIncluded?.source ?? null,
+    parking: attributes.parking?.value ?? null,
+    parkingSource: attributes.parking?.source ?? null,
+    laundry: attributes.laundry?.value ?? null,
+    laundrySource: attributes.laundry?.source ?? null,
+    leaseTerm: attributes.leaseTerm?.value ?? null,
+    leaseTermSource: attributes.leaseTerm?.source ?? null,
+    petPolicy: attributes.petPolicy?.value ?? 'unknown',
+    petPolicySource: attributes.petPolicy?.source ?? null,
+    isSublet: attributes.isSublet?.value ?? null,
+    isSubletSource: attributes.isSublet?.source ?? null
+  };
+}
+
+// Main function
+async function extractAllAttributes() {
+  // Pick the backend first so a missing API key fails before any work is done
+  const classifier = hasFlag('--rules-only') ? null : getClassifierFromArgs();
+  console.log(classifier
+    ? `Extracting attributes with rules and ${classifier.name} (${classifier.model})`
+    : 'Extracting attributes with rules only');
+
+  const candidates = await prisma.listing.findMany({
+    select: {
+      id: true,
+      source: true,
+      listingTitle: true,
+      description: true,
+      price: true,
+      bedrooms: true,
+      bathrooms: true,
+      amenities: true,
+      petFriendly: true,
+      streetAddress: true,
+      city: true,
+      state: true,
+      attributes: { select: { contentHash: true, model: true } }
+    }
+  });
+
+  // Listings never extracted, changed since, or not yet through the model pass
+  const listings = candidates.filter((listing) =>
+    !listing.attributes ||
+    listing.attributes.contentHash !== hashListingContent(listing) ||
+    (classifier && !listing.attributes.model)
+  );
+  console.log(`Found ${listings.length} listings to extract attributes from`);
+
+  let modelFilled = 0;
+  for (let i = 0; i < listings.length; i += BATCH_SIZE) {
+    const batch = listings.slice(i, i + BATCH_SIZE);
+    const ruleResults = new Map(batch.map((listing) => [listing.id, extractAttributes(listing)]));
+    const modelResults = classifier ? await extractWithModel(classifier, batch) : null;
+
+    await prisma.$transaction(batch.map((listing) => {
+      const attributes = ruleResults.get(listing.id)!;
+      const modelAttributes = modelResults?.get(listing.id);
+
+      // The model only fills in what the structured fields and regexes didn't find
+      if (modelAttributes) {
+        for (const key of Object.keys(modelAttributes) as (keyof ExtractedAttributes)[]) {
+          if (!attributes[key]) {
+            fillAttribute(attributes, modelAttributes, key);
+            modelFilled++;
+          }
+        }
+      }
+
+      const data = {
+        ...toAttributesRecord(attributes),
+        contentHash: hashListingContent(listing),
+        // Set whenever the model pass ran, even if it found nothing, so only batches whose request
+        // failed are retried next run
+        model: modelResults ? classifier!.model : null,
+        extractedAt: new Date()
+      };
+      return prisma.listingAttributes.upsert({
+        where: { listingId: listing.id },
+        create: { listingId: listing.id, ...data },
+        update: data
+      });
+    }));
+
+    console.log(`Extracted attributes for ${Math.min(i + BATCH_SIZE, listings.length)} of ${listings.length} listings`);
+  }
+
+  console.log(`\n===== ATTRIBUTE EXTRACTION COMPLETE =====`);
+  console.log(`Listings processed: ${listings.length}`);
+  console.log(`Values filled in by the model: ${modelFilled}`);
+}
+
+if (require.main === module) {
+  extractAllAttributes()
+    .then(() => prisma.$disconnect())
+    .catch((error) => {
+      console.error('Attribute extraction failed:', error);
+      prisma.$disconnect();
+      process.exit(1);
+    });
+}
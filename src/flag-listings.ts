@@ -0,0 +1,236 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import * as crypto from 'crypto';
+import { median } from './statistics';
+import { normalizeText } from './text-similarity';
+
+// Initialize Prisma client
+const prisma = new PrismaClient();
+
+// Listings whose flags add up to at least this are excluded from statistics and exports
+const EXCLUDE_THRESHOLD = 1;
+
+// Groups smaller than this are too small to call anything an outlier
+const MIN_GROUP_SIZE = 10;
+
+// Robust z-scores (based on the median absolute deviation of log prices) beyond these are outliers
+const OUTLIER_Z = 3.5;
+const EXTREME_OUTLIER_Z = 5;
+
+// Listing IDs marked as excluded per query, well under PostgreSQL's limit of about 32,000 bind parameters
+const UPDATE_CHUNK_SIZE = 1000;
+
+// Descriptions shorter than this are too generic to count as reused
+const MIN_REUSED_DESCRIPTION_LENGTH = 100;
+
+// Phrases typical of rental scams: money up front, an absent landlord, keys by mail
+const SCAM_PATTERNS: { pattern: RegExp; label: string }[] = [
+  { pattern: /\bwire\s+(?:the\s+)?(?:money|funds|transfer|payment)\b/i, label: 'wire money' },
+  { pattern: /\bwestern\s+union\b|\bmoneygram\b/i, label: 'money transfer service' },
+  { pattern: /\bdeposit\b[^.]{0,60}\b(?:before|prior to)\b[^.]{0,30}\b(?:view|viewing|showing|see)/i, label: 'deposit before viewing' },
+  { pattern: /\b(?:send|e-?transfer|pay)\b[^.]{0,40}\bdeposit\b[^.]{0,40}\b(?:to hold|to secure|to reserve)\b/i, label: 'deposit to hold' },
+  { pattern: /\b(?:out of (?:the )?(?:country|town|province)|overseas|abroad)\b/i, label: 'landlord away' },
+  { pattern: /\b(?:mail|courier|ship|send)\b[^.]{0,30}\bkeys?\b/i, label: 'keys by mail' },
+  { pattern: /\b(?:gift\s*cards?|bitcoin|crypto(?:currency)?)\b/i, label: 'untraceable payment' },
+  { pattern: /\bno\s+(?:viewings?|showings?)\b|\bcan(?:not|'t)\s+show\b/i, label: 'no viewing' }
+];
+
+// Interface for the listing data we score
+interface ListingForFlagging {
+  id: string;
+  price: Prisma.Decimal;
+  monthlyRent: Prisma.Decimal | null;
+  city: string | null;
+  description: string | null;
+  ai_category_v1: string | null;
+}
+
+// A reason to distrust a listing
+interface Flag {
+  flag: string;
+  reason: string;
+  score: number;
+}
+
+/**
+ * Detects prices that are placeholders rather than real rents, e.g. $0, $1, $123, $12345 or $1111
+ * @param price The listed price
+ * @param monthlyRent The price converted to a monthly rent; a $50 nightly rental is a real price
+ */
+export function isPlaceholderPrice(price: number, monthlyRent: number = price): boolean {
+  if (monthlyRent < 100) {
+    return true;
+  }
+  const digits = Math.round(price).toString();
+  const isRepeated = /^(\d)\1{3,}$/.test(digits);
+  const isSequential = digits.length >= 3 && '1234567890'.startsWith(digits);
+  return isRepeated || isSequential;
+}
+
+/**
+ * The rent statistics are based on: the normalized monthly rent, or the listed price for listings
+ * imported before prices were normalized
+ */
+function getMonthlyRent(listing: ListingForFlagging): number {
+  return (listing.monthlyRent || listing.price).toNumber();
+}
+
+/**
+ * Flags monthly rents far outside the distribution of their city and category, using robust
+ * z-scores of log rents so a handful of extreme values can't hide each other
+ */
+function findPriceOutliers(listings: ListingForFlagging[], flags: Map<string, Flag[]>) {
+  const groups = new Map<string, ListingForFlagging[]>();
+  for (const listing of listings) {
+    // Placeholder prices would distort the distribution
+    if (isPlaceholderPrice(listing.price.toNumber(), getMonthlyRent(listing))) continue;
+
+    const key = `${(listing.city || '').toLowerCase()}|${listing.ai_category_v1 || 'uncategorized'}`;
+    const group = groups.get(key);
+    if (group) group.push(listing);
+    else groups.set(key, [listing]);
+  }
+
+  for (const [key, group] of groups) {
+    if (group.length < MIN_GROUP_SIZE) continue;
+
+    const logPrices = group.map((listing) => Math.log(getMonthlyRent(listing))).sort((a, b) => a - b);
+    const center = median(logPrices);
+    const mad = median(logPrices.map((value) => Math.abs(value - center)).sort((a, b) => a - b));
+    if (mad === 0) continue;
+
+    for (const listing of group) {
+      const monthlyRent = getMonthlyRent(listing);
+      const z = (Math.log(monthlyRent) - center) / (1.4826 * mad);
+      if (Math.abs(z) < OUTLIER_Z) continue;
+
+      const [city, category] = key.split('|');
+      flags.get(listing.id)!.push({
+        flag: 'price_outlier',
+        reason: `$${monthlyRent.toFixed(2)}/month is ${z > 0 ? 'above' : 'below'} the ${city || 'unknown city'} ${category} median of $${Math.round(Math.exp(center))} (robust z ${z.toFixed(1)})`,
+        score: Math.abs(z) >= EXTREME_OUTLIER_Z ? 1 : 0.5
+      });
+    }
+  }
+}
+
+/**
+ * Flags long descriptions that appear word for word in listings in more than one city, a sign
+ * of copied or mass-posted scam listings
+ */
+function findReusedDescriptions(listings: ListingForFlagging[], flags: Map<string, Flag[]>) {
+  const citiesByDescription = new Map<string, Set<string>>();
+  const descriptionHashes = new Map<string, string>();
+
+  for (const listing of listings) {
+    const text = normalizeText(listing.description || '');
+    if (text.length < MIN_REUSED_DESCRIPTION_LENGTH || !listing.city) continue;
+
+    const hash = crypto.createHash('sha256').update(text).digest('hex');
+    descriptionHashes.set(listing.id, hash);
+    if (!citiesByDescription.has(hash)) citiesByDescription.set(hash, new Set());
+    citiesByDescription.get(hash)!.add(listing.city.toLowerCase());
+  }
+
+  for (const [listingId, hash] of descriptionHashes) {
+    const cities = citiesByDescription.get(hash)!;
+    if (cities.size < 2) continue;
+    flags.get(listingId)!.push({
+      flag: 'reused_description',
+      reason: `Same description posted in ${cities.size} cities: ${Array.from(cities).sort().join(', ')}`,
+      score: 1
+    });
+  }
+}
+
+/**
+ * Flags the signals that only depend on the listing itself: placeholder prices and scam language
+ */
+function findListingSignals(listing: ListingForFlagging): Flag[] {
+  const flags: Flag[] = [];
+
+  if (isPlaceholderPrice(listing.price.toNumber(), getMonthlyRent(listing))) {
+    flags.push({ flag: 'placeholder_price', reason: `Price of $${listing.price} looks like a placeholder`, score: 1 });
+  }
+
+  const description = listing.description || '';
+  const phrases = SCAM_PATTERNS.filter(({ pattern }) => pattern.test(description)).map(({ label }) => label);
+  if (phrases.length > 0) {
+    flags.push({
+      flag: 'scam_language',
+      reason: `Description mentions: ${phrases.join(', ')}`,
+      // One phrase can be innocent; two or more is enough to exclude the listing
+      score: Math.min(1, phrases.length * 0.5)
+    });
+  }
+
+  return flags;
+}
+
+// Main function
+async function flagListings() {
+  const listings: ListingForFlagging[] = await prisma.listing.findMany({
+    select: {
+      id: true,
+      price: true,
+      monthlyRent: true,
+      city: true,
+      description: true,
+      ai_category_v1: true
+    }
+  });
+  console.log(`Scoring ${listings.length} listings...`);
+
+  const flags = new Map<string, Flag[]>(listings.map((listing) => [listing.id, findListingSignals(listing)]));
+  findPriceOutliers(listings, flags);
+  findReusedDescriptions(listings, flags);
+
+  // Flags are recomputed from scratch on every run
+  const flagRows: Prisma.ListingFlagCreateManyInput[] = [];
+  const excludedIds: string[] = [];
+  for (const [listingId, listingFlags] of flags) {
+    flagRows.push(...listingFlags.map((flag) => ({ listingId, ...flag })));
+    const total = listingFlags.reduce((sum, flag) => sum + flag.score, 0);
+    if (total >= EXCLUDE_THRESHOLD) excludedIds.push(listingId);
+  }
+
+  // Clear every exclusion, then set them again in chunks, so the query size doesn't grow with the dataset
+  const excludeWrites: Prisma.PrismaPromise<unknown>[] = [];
+  for (let i = 0; i < excludedIds.length; i += UPDATE_CHUNK_SIZE) {
+    excludeWrites.push(prisma.listing.updateMany({
+      where: { id: { in: excludedIds.slice(i, i + UPDATE_CHUNK_SIZE) } },
+      data: { excludedFromStats: true }
+    }));
+  }
+
+  await prisma.$transaction([
+    prisma.listingFlag.deleteMany(),
+    prisma.listingFlag.createMany({ data: flagRows }),
+    prisma.listing.updateMany({
+      where: { excludedFromStats: true },
+      data: { excludedFromStats: false }
+    }),
+    ...excludeWrites
+  ]);
+
+  const countByFlag = new Map<string, number>();
+  for (const row of flagRows) {
+    countByFlag.set(row.flag, (countByFlag.get(row.flag) || 0) + 1);
+  }
+
+  console.log(`\n===== FLAGGING COMPLETE =====`);
+  for (const [flag, count] of countByFlag) {
+    console.log(`${flag}: ${count}`);
+  }
+  console.log(`Listings flagged: ${Array.from(flags.values()).filter((listingFlags) => listingFlags.length > 0).length}`);
+  console.log(`Listings excluded from statistics: ${excludedIds.length}`);
+}
+
+if (require.main === module) {
+  flagListings()
+    .then(() => prisma.$disconnect())
+    .catch((error) => {
+      console.error('Flagging failed:', error);
+      prisma.$disconnect();
+      process.exit(1);
+    });
+}
@@ -0,0 +1,169 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Default location of the list of boundary layers
+export const DEFAULT_BOUNDARIES_PATH = path.join(__dirname, '..', 'config', 'boundaries.json');
+
+// Layer that postal code FSAs are assigned to
+export const FSA_LAYER = 'fsa';
+
+// A ring of [longitude, latitude] positions, as in GeoJSON
+type Ring = number[][];
+
+// The GeoJSON geometries that can bound an area
+type Geometry =
+  | { type: 'Polygon'; coordinates: Ring[] }
+  | { type: 'MultiPolygon'; coordinates: Ring[][] };
+
+// One boundary layer in config/boundaries.json
+export interface BoundaryLayerConfig {
+  // Layer name stored on each area, e.g. neighbourhood or census_tract
+  layer: string;
+  // GeoJSON FeatureCollection, relative to the config file
+  file: string;
+  // Feature properties holding each area's identifier and display name
+  codeProperty: string;
+  nameProperty?: string;
+}
+
+// One area of a boundary layer, with its bounding box for a quick first check
+export interface Boundary {
+  code: string;
+  name: string | null;
+  // Each polygon is an outer ring followed by its holes
+  polygons: Ring[][];
+  bbox: [number, number, number, number];
+}
+
+// A boundary layer loaded from its GeoJSON file
+export interface BoundaryLayer {
+  layer: string;
+  boundaries: Boundary[];
+}
+
+/**
+ * Computes the bounding box of a set of polygons as [minLon, minLat, maxLon, maxLat]
+ */
+function getBoundingBox(polygons: Ring[][]): [number, number, number, number] {
+  const bbox: [number, number, number, number] = [Infinity, Infinity, -Infinity, -Infinity];
+  for (const polygon of polygons) {
+    for (const [lon, lat] of polygon[0]) {
+      bbox[0] = Math.min(bbox[0], lon);
+      bbox[1] = Math.min(bbox[1], lat);
+      bbox[2] = Math.max(bbox[2], lon);
+      bbox[3] = Math.max(bbox[3], lat);
+    }
+  }
+  return bbox;
+}
+
+/**
+ * Reads a GeoJSON FeatureCollection into boundaries, skipping features that aren't polygons or
+ * have no identifier
+ * @param filePath Path to the GeoJSON file
+ * @param config The layer's settings
+ */
+function loadBoundaryFile(filePath: string, config: BoundaryLayerConfig): BoundaryLayer {
+  const collection = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  if (collection?.type !== 'FeatureCollection' || !Array.isArray(collection.features)) {
+    throw new Error(`${filePath} is not a GeoJSON FeatureCollection`);
+  }
+
+  const boundaries: Boundary[] = [];
+  for (const feature of collection.features) {
+    const geometry = feature?.geometry as Geometry | null;
+    const code = feature?.properties?.[config.codeProperty];
+    if (!geometry || (code !== 0 && !code)) continue;
+
+    let polygons: Ring[][];
+    if (geometry.type === 'Polygon') polygons = [geometry.coordinates];
+    else if (geometry.type === 'MultiPolygon') polygons = geometry.coordinates;
+    else continue;
+
+    const name = config.nameProperty ? feature.properties[config.nameProperty] : null;
+    boundaries.push({
+      code: String(code),
+      name: name === null || name === undefined ? null : String(name),
+      polygons,
+      bbox: getBoundingBox(polygons)
+    });
+  }
+  return { layer: config.layer, boundaries };
+}
+
+/**
+ * Loads every boundary layer listed in the config file. Layers whose GeoJSON file is missing are
+ * skipped with a warning, since boundary files are downloaded separately and not every city has them.
+ * @param configPath Path to the JSON list of layers
+ * @throws If the config is invalid, a layer is listed twice, or a GeoJSON file can't be parsed
+ */
+export function loadBoundaryLayers(configPath: string = DEFAULT_BOUNDARIES_PATH): BoundaryLayer[] {
+  const config = JSON.parse(fs.readFileSync(configPath, 'utf-8')) as { layers?: BoundaryLayerConfig[] };
+  const layers: BoundaryLayer[] = [];
+
+  for (const layerConfig of config.layers || []) {
+    if (!layerConfig.layer || !layerConfig.file || !layerConfig.codeProperty) {
+      throw new Error(`Every layer in ${configPath} needs a layer, file and codeProperty`);
+    }
+    if (layerConfig.layer === FSA_LAYER || layers.some((layer) => layer.layer === layerConfig.layer)) {
+      throw new Error(`Layer "${layerConfig.layer}" in ${configPath} is listed twice or is reserved`);
+    }
+
+    const filePath = path.resolve(path.dirname(configPath), layerConfig.file);
+    if (!fs.existsSync(filePath)) {
+      console.warn(`Skipping layer ${layerConfig.layer}: ${filePath} not found`);
+      continue;
+    }
+    layers.push(loadBoundaryFile(filePath, layerConfig));
+  }
+  return layers;
+}
+
+/**
+ * Whether a point is inside a ring, by counting how many of its edges a ray from the point crosses
+ */
+function isInRing(lon: number, lat: number, ring: Ring): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [lonI, latI] = ring[i];
+    const [lonJ, latJ] = ring[j];
+    if ((latI > lat) !== (latJ > lat) && lon < ((lonJ - lonI) * (lat - latI)) / (latJ - latI) + lonI) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Whether a point is inside a boundary: inside the outer ring of one of its polygons and not in
+ * any of that polygon's holes
+ * @param lon Longitude of the point
+ * @param lat Latitude of the point
+ * @param boundary The boundary to test
+ */
+export function containsPoint(lon: number, lat: number, boundary: Boundary): boolean {
+  const [minLon, minLat, maxLon, maxLat] = boundary.bbox;
+  if (lon < minLon || lon > maxLon || lat < minLat || lat > maxLat) {
+    return false;
+  }
+  return boundary.polygons.some(([outer, ...holes]) =>
+    isInRing(lon, lat, outer) && !holes.some((hole) => isInRing(lon, lat, hole))
+  );
+}
+
+/**
+ * Finds the boundary of a layer that contains a point
+ * @returns The first containing boundary, or undefined if the point is outside the layer
+ */
+export function findBoundary(layer: BoundaryLayer, lon: number, lat: number): Boundary | undefined {
+  return layer.boundaries.find((boundary) => containsPoint(lon, lat, boundary));
+}
+
+/**
+ * Gets the forward sortation area of a Canadian postal code, e.g. `B3H` from `b3h 4r2`
+ * @returns The FSA, or undefined if the postal code doesn't start with a valid one
+ */
+export function getFsa(postalCode: string | null | undefined): string | undefined {
+  const match = (postalCode || '').toUpperCase().replace(/\s+/g, '').match(/^([ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z])/);
+  return match ? match[1] : undefined;
+}
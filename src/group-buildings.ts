@@ -0,0 +1,144 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { formatAddress, parseAddress } from './address';
+
+// Initialize Prisma client
+const prisma = new PrismaClient();
+
+// Listings updated per transaction
+const BATCH_SIZE = 1000;
+
+// Largest buildings shown in the summary
+const LARGEST_BUILDINGS_SHOWN = 10;
+
+// Interface for the listing data buildings are built from
+interface ListingForBuilding {
+  id: string;
+  city: string | null;
+  streetAddress: string | null;
+  postalCode: string | null;
+  unitId: number | null;
+  firstSeenAt: Date | null;
+  lastSeenAt: Date | null;
+  normalizedAddress: string | null;
+  unitNumber: string | null;
+  buildingId: number | null;
+}
+
+/**
+ * Normalizes every listing's street address and groups listings at the same civic address in the
+ * same city into buildings. Listings whose address can't be parsed, or that have no city, don't
+ * belong to a building.
+ */
+async function groupBuildings() {
+  const listings: ListingForBuilding[] = await prisma.listing.findMany({
+    select: {
+      id: true,
+      city: true,
+      streetAddress: true,
+      postalCode: true,
+      unitId: true,
+      firstSeenAt: true,
+      lastSeenAt: true,
+      normalizedAddress: true,
+      unitNumber: true,
+      buildingId: true
+    },
+    orderBy: [{ firstSeenAt: 'asc' }, { id: 'asc' }]
+  });
+
+  const addressUpdates: Prisma.PrismaPromise<unknown>[] = [];
+  const buildings = new Map<string, { address: string; city: string; postalCode: string | null; listings: ListingForBuilding[]; units: Set<string> }>();
+  const withoutBuilding: string[] = [];
+  let parsedCount = 0;
+
+  for (const listing of listings) {
+    const parsed = parseAddress(listing.streetAddress, listing.postalCode);
+    const normalizedAddress = parsed ? formatAddress(parsed, false) : null;
+    const unitNumber = parsed?.unit ?? null;
+    if (parsed) parsedCount++;
+    if (normalizedAddress !== listing.normalizedAddress || unitNumber !== listing.unitNumber) {
+      addressUpdates.push(prisma.listing.update({
+        where: { id: listing.id },
+        data: { normalizedAddress, unitNumber }
+      }));
+    }
+
+    const city = (listing.city || '').trim();
+    if (!parsed || !city) {
+      if (listing.buildingId !== null) withoutBuilding.push(listing.id);
+      continue;
+    }
+
+    // Cities are spelled with varying case, so the first spelling seen names the building's city
+    const key = `${city.toLowerCase()}|${normalizedAddress}`;
+    const building = buildings.get(key) || { address: normalizedAddress!, city, postalCode: null, listings: [], units: new Set<string>() };
+    building.postalCode = building.postalCode || parsed.postalCode;
+    building.listings.push(listing);
+    // A listing without a unit number counts as the unit it was deduplicated into, if any
+    building.units.add(unitNumber ? `number:${unitNumber}` : listing.unitId !== null ? `unit:${listing.unitId}` : `listing:${listing.id}`);
+    buildings.set(key, building);
+  }
+
+  for (let i = 0; i < addressUpdates.length; i += BATCH_SIZE) {
+    await prisma.$transaction(addressUpdates.slice(i, i + BATCH_SIZE));
+  }
+  for (let i = 0; i < withoutBuilding.length; i += BATCH_SIZE) {
+    await prisma.listing.updateMany({
+      where: { id: { in: withoutBuilding.slice(i, i + BATCH_SIZE) } },
+      data: { buildingId: null }
+    });
+  }
+
+  for (const building of buildings.values()) {
+    const firstSeen = building.listings.map((listing) => listing.firstSeenAt?.getTime()).filter((time): time is number => time !== undefined);
+    const lastSeen = building.listings.map((listing) => listing.lastSeenAt?.getTime()).filter((time): time is number => time !== undefined);
+    const data = {
+      postalCode: building.postalCode,
+      listingCount: building.listings.length,
+      unitCount: building.units.size,
+      firstSeenAt: firstSeen.length > 0 ? new Date(Math.min(...firstSeen)) : null,
+      lastSeenAt: lastSeen.length > 0 ? new Date(Math.max(...lastSeen)) : null
+    };
+
+    const saved = await prisma.building.upsert({
+      where: { city_address: { city: building.city, address: building.address } },
+      create: { city: building.city, address: building.address, ...data },
+      update: data
+    });
+    const moved = building.listings.filter((listing) => listing.buildingId !== saved.id).map((listing) => listing.id);
+    if (moved.length > 0) {
+      await prisma.listing.updateMany({ where: { id: { in: moved } }, data: { buildingId: saved.id } });
+    }
+  }
+
+  // Buildings whose listings have all moved elsewhere, e.g. after an address was corrected
+  const removed = await prisma.building.deleteMany({ where: { listings: { none: {} } } });
+
+  const largest = await prisma.building.findMany({
+    orderBy: [{ unitCount: 'desc' }, { listingCount: 'desc' }],
+    take: LARGEST_BUILDINGS_SHOWN
+  });
+
+  console.log(`\n===== BUILDING GROUPING COMPLETE =====`);
+  console.log(`Listings: ${listings.length}`);
+  console.log(`Listings with a parsed address: ${parsedCount}`);
+  console.log(`Addresses updated: ${addressUpdates.length}`);
+  console.log(`Buildings: ${buildings.size}`);
+  console.log(`Stale buildings removed: ${removed.count}`);
+  if (largest.length > 0) {
+    console.log('\nLargest buildings by units advertised:');
+    for (const building of largest) {
+      console.log(`  ${building.address}, ${building.city}: ${building.unitCount} units, ${building.listingCount} listings`);
+    }
+  }
+}
+
+if (require.main === module) {
+  groupBuildings()
+    .then(() => prisma.$disconnect())
+    .catch((error) => {
+      console.error('Building grouping failed:', error);
+      prisma.$disconnect();
+      process.exit(1);
+    });
+}
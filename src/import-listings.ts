@@ -1,24 +1,12 @@
-import { PrismaClient } from '@prisma/client';
-import * as fs from 'fs';
+import { Prisma, PrismaClient, ScrapeRun } from '@prisma/client';
 import * as path from 'path';
-
-// Interface for our parsed JSON data
-interface ListingData {
-  id: string;
-  listingTitle?: string;
-  price?: number;
-  city?: string;
-  state?: string;
-  country?: string;
-  imageUrl?: string;
-  listingUrl?: string;
-  datetime?: string;
-  description?: string;
-  latitude?: number;
-  longitude?: number;
-  bedrooms?: number;
-  bathrooms?: number;
-}
+import { getOption, globToRegExp, hasFlag } from './cli';
+import { hashFile, isAlreadyImported, recordImport } from './import-manifest';
+import { streamJsonArray } from './json-stream';
+import { normalizePrice } from './price-normalization';
+import { findJsonFiles, getScrapeContext, recordScrapeRun, ScrapeContext } from './scrape-runs';
+import { getAdapterForFile, SourceAdapter, toListingRecord } from './sources';
+import { formatDriftSummary, hasDrift, validateFile, writeDriftReport } from './validate-listings';
 
 // Statistics interface for tracking import results
 interface ImportStats {
@@ -26,367 +14,366 @@ interface ImportStats {
   updatedListings: number;
   skippedListings: number;
   totalProcessed: number;
+  delistedListings: number;
   errors: number;
 }
 
 // Initialize the Prisma client
 const prisma = new PrismaClient();
 
-/**
- * Recursively finds all JSON files in a directory and its subdirectories
- * @param directoryPath The directory to search in
- * @returns Array of absolute paths to JSON files
- */
-async function findJsonFiles(directoryPath: string): Promise<string[]> {
-  const jsonFiles: string[] = [];
-  
-  try {
-    const entries = await fs.promises.readdir(directoryPath, { withFileTypes: true });
-    
-    for (const entry of entries) {
-      const fullPath = path.join(directoryPath, entry.name);
-      
-      if (entry.isDirectory()) {
-        const subDirFiles = await findJsonFiles(fullPath);
-        jsonFiles.push(...subDirFiles);
-      } else if (entry.isFile() && entry.name.endsWith('.json')) {
-        jsonFiles.push(fullPath);
-      }
-    }
-  } catch (error) {
-    console.error(`Error searching directory ${directoryPath}:`, error);
-  }
-  
-  return jsonFiles;
-}
+// Listings written per transaction, and transactions in flight at once
+const DEFAULT_BATCH_SIZE = 500;
+const DEFAULT_CONCURRENCY = 4;
 
 /**
- * Imports listings from a JSON file into the database
- * @param filePath Path to the JSON file containing listings
- * @returns Statistics about the import process
+ * Creates an empty set of import statistics
  */
-async function importListings(filePath: string): Promise<ImportStats> {
-  // Initialize statistics
-  const stats: ImportStats = {
+function createEmptyStats(): ImportStats {
+  return {
     newListings: 0,
     updatedListings: 0,
     skippedListings: 0,
     totalProcessed: 0,
+    delistedListings: 0,
     errors: 0
   };
+}
+
+/**
+ * Works out a listing's billing period and monthly rent from its price and text
+ * @param listing The parsed listing
+ * @param category The listing's AI category if it has been categorized; normalize-prices refines the result once it is
+ */
+function getPriceFields(listing: Prisma.ListingCreateInput, category: string | null) {
+  const { billingPeriod, pricePerPerson, monthlyRent } = normalizePrice({
+    price: parseFloat(listing.price as string),
+    listingTitle: listing.listingTitle,
+    description: listing.description,
+    category,
+    bedrooms: listing.bedrooms
+  });
+  return { billingPeriod, pricePerPerson, monthlyRent: monthlyRent.toFixed(2) };
+}
+
+/**
+ * Writes a batch of parsed listings in a single transaction: creates new listings, updates
+ * existing ones, and records the price observed in this scrape
+ * @param batch Parsed listings with distinct IDs
+ * @param scrapeRun The scrape run the listings were seen in
+ * @param stats Statistics to update
+ */
+async function importBatch(batch: Prisma.ListingCreateInput[], scrapeRun: ScrapeRun, stats: ImportStats): Promise<void> {
+  const { scrapedAt } = scrapeRun;
+  
+  // Look up every listing in the batch at once
+  const existingListings = await prisma.listing.findMany({
+    where: { id: { in: batch.map((listing) => listing.id) } },
+    select: { id: true, price: true, firstSeenAt: true, lastSeenAt: true, ai_category_v1: true }
+  });
+  const existingById = new Map(existingListings.map((listing) => [listing.id, listing]));
   
-  try {
-    // Read and parse the JSON file
-    const fileContent = await fs.promises.readFile(filePath, 'utf-8');
-    const listings = JSON.parse(fileContent);
+  const newListings: Prisma.ListingCreateInput[] = [];
+  const writes: Prisma.PrismaPromise<unknown>[] = [];
+  const priceHistoryRows: Prisma.PriceHistoryCreateManyInput[] = [];
+  
+  for (const listing of batch) {
+    const existingListing = existingById.get(listing.id);
+    const priceFields = getPriceFields(listing, existingListing?.ai_category_v1 || null);
     
-    console.log(`Processing ${listings.length} listings from ${path.basename(filePath)}...`);
+    // Lifecycle fields for the latest sighting of this listing
+    const dbData: Prisma.ListingCreateInput = {
+      ...listing,
+      ...priceFields,
+      scrapedAt,
+      lastSeenAt: scrapedAt,
+      delistedAt: null
+    };
     
-    // Process each listing
-    for (const item of listings) {
-      try {
-        stats.totalProcessed++;
-        
-        // Parse price as cents to avoid floating point issues
-        let priceInCents = 0;
-        if (item.listing_price?.amount) {
-          // Parse as float first, then convert to cents as integer
-          const parsedPrice = parseFloat(item.listing_price.amount);
-          if (!isNaN(parsedPrice)) {
-            // Convert to cents by multiplying by 100 and rounding to avoid floating point errors
-            priceInCents = Math.round(parsedPrice * 100);
-          }
-        }
-        
-        // Extract location details
-        const city = item.location?.reverse_geocode?.city || 
-                    item.listing_details?.location?.reverse_geocode_detailed?.city || 
-                    '';
-        
-        const state = item.location?.reverse_geocode?.state || 
-                     item.listing_details?.location?.reverse_geocode_detailed?.state || 
-                     '';
-                     
-        const postalCode = item.listing_details?.location?.reverse_geocode_detailed?.postal_code || '';
-        
-        // Extract street address
-        let streetAddress = '';
-        if (item.listing_details?.home_address?.street) {
-          streetAddress = item.listing_details.home_address.street;
-        } else if (item.custom_sub_titles_with_rendering_flags) {
-          // Sometimes address is in custom subtitles
-          for (const subtitle of item.custom_sub_titles_with_rendering_flags) {
-            if (subtitle.subtitle && !subtitle.subtitle.includes(city) && !subtitle.subtitle.includes(state)) {
-              streetAddress = subtitle.subtitle;
-              break;
-            }
-          }
-        }
-        
-        // Extract latitude and longitude
-        const latitude = item.listing_details?.location?.latitude || null;
-        const longitude = item.listing_details?.location?.longitude || null;
-        
-        // Extract bedroom and bathroom counts
-        let bedrooms = extractBedroomCount(item);
-        let bathrooms = extractBathroomCount(item);
-        
-        // Try to extract from unit_room_info if available
-        if (item.listing_details?.unit_room_info && !bedrooms && !bathrooms) {
-          const roomInfo = item.listing_details.unit_room_info;
-          const bedroomMatch = roomInfo.match(/(\d+)\s*bed/i);
-          const bathroomMatch = roomInfo.match(/(\d+)\s*bath/i);
-          
-          if (bedroomMatch) bedrooms = parseInt(bedroomMatch[1]);
-          if (bathroomMatch) bathrooms = parseInt(bathroomMatch[1]);
-        }
-        
-        // Pet friendly
-        let petFriendly = false;
-        if (item.listing_details?.pdp_display_sections) {
-          for (const section of item.listing_details.pdp_display_sections) {
-            if (section.pdp_fields) {
-              for (const field of section.pdp_fields) {
-                if (field.display_label && field.display_label.toLowerCase().includes('pet') ||
-                    field.display_label && field.display_label.toLowerCase().includes('dog') ||
-                    field.display_label && field.display_label.toLowerCase().includes('cat')) {
-                  petFriendly = true;
-                  break;
-                }
-              }
-            }
-          }
-        }
-        
-        // Check description for pet friendly mentions
-        if (!petFriendly && item.listing_details?.redacted_description?.text) {
-          const descText = item.listing_details.redacted_description.text.toLowerCase();
-          if (descText.includes('pet friendly') || 
-              descText.includes('pets allowed') || 
-              descText.includes('pet-friendly') ||
-              descText.includes('dogs allowed') ||
-              descText.includes('cats allowed')) {
-            petFriendly = true;
-          }
-        }
-        
-        // Available date
-        let availableDate = null;
-        if (item.listing_details?.pdp_display_sections) {
-          for (const section of item.listing_details.pdp_display_sections) {
-            if (section.pdp_fields) {
-              for (const field of section.pdp_fields) {
-                if (field.display_label && field.display_label.includes('Available')) {
-                  const dateMatch = field.display_label.match(/Available\s+(\d{4}\/\d{2}\/\d{2})/i);
-                  if (dateMatch) {
-                    availableDate = new Date(dateMatch[1]);
-                  } else if (field.display_label.toLowerCase().includes('now')) {
-                    availableDate = new Date();
-                  }
-                  break;
-                }
-              }
-            }
-          }
-        }
-        
-        // Extract amenities
-        const amenities: string[] = [];
-        if (item.listing_details?.pdp_display_sections) {
-          for (const section of item.listing_details.pdp_display_sections) {
-            if (section.pdp_fields) {
-              for (const field of section.pdp_fields) {
-                if (field.display_label && 
-                    !field.display_label.includes('bed') && 
-                    !field.display_label.includes('bath') &&
-                    !field.display_label.includes('Available')) {
-                  amenities.push(field.display_label);
-                }
-              }
-            }
-          }
-        }
-        
-        // Image URL
-        const imageUrl = item.primary_listing_photo?.image?.uri || 
-                         item.listing_details?.listing_photos?.[0]?.image?.uri || 
-                         '';
-        
-        // Extract data with proper fallbacks for missing fields
-        const listing: ListingData = {
-          id: item.id,
-          listingTitle: item.marketplace_listing_title || item.custom_title || '',
-          price: priceInCents / 100,
-          city,
-          state,
-          country: '',
-          imageUrl,
-          listingUrl: '',
-          datetime: item.creation_time || '',
-          description: item.listing_details?.redacted_description?.text || '',
-          latitude,
-          longitude,
-          bedrooms,
-          bathrooms
-        };
+    priceHistoryRows.push({
+      listingId: listing.id,
+      price: listing.price,
+      monthlyRent: priceFields.monthlyRent,
+      recordedAt: scrapedAt,
+      scrapeRunId: scrapeRun.id
+    });
+    
+    if (existingListing) {
+      // Files can be imported out of order; only a newer observation may overwrite the listing
+      const isLatestObservation = !existingListing.lastSeenAt || existingListing.lastSeenAt <= scrapedAt;
+      const isEarliestObservation = !existingListing.firstSeenAt || existingListing.firstSeenAt > scrapedAt;
+      
+      if (isLatestObservation) {
+        // Log price changes for existing listings
+        const existingPriceStr = existingListing.price.toString();
+        const newPriceStr = parseFloat(dbData.price as string).toFixed(2);
         
-        // Skip listings without an ID
-        if (!listing.id) {
-          stats.skippedListings++;
-          continue;
+        if (existingPriceStr !== newPriceStr) {
+          console.log(`Price change for listing ${listing.id}: $${existingPriceStr} → $${newPriceStr}`);
         }
         
-        // Check if the listing already exists
-        const existingListing = await prisma.listing.findUnique({
-          where: { id: listing.id }
-        });
-        
-        // Prepare database record
-        const dbData: any = {
-          id: listing.id,
-          // Use string representation for price to avoid precision loss
-          price: (priceInCents / 100).toFixed(2),
-        };
+        if (isEarliestObservation) dbData.firstSeenAt = scrapedAt;
         
-        // Add optional fields if they exist
-        if (listing.listingTitle) dbData.listingTitle = listing.listingTitle;
-        if (city) dbData.city = city;
-        if (state) dbData.state = state;
-        if (postalCode) dbData.postalCode = postalCode;
-        if (streetAddress) dbData.streetAddress = streetAddress;
-        if (listing.description) dbData.description = listing.description;
-        if (latitude) dbData.latitude = latitude.toString();
-        if (longitude) dbData.longitude = longitude.toString();
-        if (bedrooms) dbData.bedrooms = bedrooms;
-        if (bathrooms) dbData.bathrooms = bathrooms;
-        if (amenities.length > 0) dbData.amenities = amenities;
-        if (petFriendly !== null) dbData.petFriendly = petFriendly;
-        if (availableDate) dbData.availableDate = availableDate;
-        if (imageUrl) dbData.imageUrl = imageUrl;
-        if (item.creation_time) dbData.listedDate = new Date(item.creation_time);
-        
-        // AI categorization - empty by default
-        dbData.ai_category_v1 = '';
-        
-        // Log price changes for existing listings
-        if (existingListing) {
-          const existingPrice = existingListing.price;
-          const newPrice = parseFloat(dbData.price);
-          
-          // Convert both to strings with 2 decimal places for comparison
-          const existingPriceStr = existingPrice.toString();
-          const newPriceStr = newPrice.toFixed(2);
-          
-          if (existingPriceStr !== newPriceStr) {
-            console.log(`Price change for listing ${listing.id}: $${existingPriceStr} → $${newPriceStr}`);
-          }
-          
-          // Update existing listing
-          await prisma.listing.update({
-            where: { id: listing.id },
-            data: dbData
-          });
-          stats.updatedListings++;
-        } else {
-          // Create new listing
-          await prisma.listing.create({
-            data: dbData
-          });
-          stats.newListings++;
-        }
-      } catch (error) {
-        stats.errors++;
-        console.error(`Error processing listing ${item.id || 'unknown'}:`, error);
+        writes.push(prisma.listing.update({
+          where: { id: listing.id },
+          data: dbData
+        }));
+      } else if (isEarliestObservation) {
+        writes.push(prisma.listing.update({
+          where: { id: listing.id },
+          data: { firstSeenAt: scrapedAt }
+        }));
       }
+    } else {
+      dbData.firstSeenAt = scrapedAt;
+      newListings.push(dbData);
     }
-    
-    return stats;
-    
-  } catch (error) {
-    console.error(`Error importing file ${filePath}:`, error);
-    stats.errors++;
-    return stats;
   }
+  
+  // Record the price observed in this scrape; re-importing the same file is a no-op
+  const priceHistory = prisma.priceHistory.createMany({
+    data: priceHistoryRows,
+    skipDuplicates: true
+  });
+  
+  await prisma.$transaction([
+    prisma.listing.createMany({ data: newListings }),
+    ...writes,
+    priceHistory
+  ]);
+  
+  stats.newListings += newListings.length;
+  stats.updatedListings += batch.length - newListings.length;
 }
 
 /**
- * Extract bedroom count from listing data
+ * Imports listings from a JSON file into the database. The file is streamed and written in
+ * batches, several of which may be in flight at once.
+ * @param filePath Path to the JSON file containing listings
+ * @param adapter The source adapter that parses the file's records
+ * @param scrapeRun The scrape run the file represents; its timestamp is recorded on price history and lifecycle fields
+ * @param options Number of listings per transaction and how many transactions to run concurrently
+ * @returns Statistics about the import process
+ * @throws If the file can't be read or parsed; errors in individual listings are counted instead
  */
-function extractBedroomCount(item: any): number | undefined {
-  try {
-    // Check different possible places where bedroom info might be stored
-    if (item.listing_title?.text && item.listing_title.text.includes('bedroom')) {
-      const match = item.listing_title.text.match(/(\d+)\s*bedroom/i);
-      if (match) return parseInt(match[1]);
-    }
+async function importListings(
+  filePath: string,
+  adapter: SourceAdapter,
+  scrapeRun: ScrapeRun,
+  options: { batchSize: number; concurrency: number }
+): Promise<ImportStats> {
+  // Initialize statistics
+  const stats = createEmptyStats();
+  
+  console.log(`Processing listings from ${path.basename(filePath)}...`);
+  
+  // Position of each listing in the search results, in order of first appearance
+  const sightings = new Map<string, number>();
+  
+  const inFlight = new Set<Promise<void>>();
+  let batch: Prisma.ListingCreateInput[] = [];
+  
+  // Write a batch, falling back to one listing at a time to isolate failing listings
+  const flush = () => {
+    const pending = batch;
+    batch = [];
     
-    if (item.description && item.description.includes('bedroom')) {
-      const match = item.description.match(/(\d+)\s*bedroom/i);
-      if (match) return parseInt(match[1]);
+    const task = importBatch(pending, scrapeRun, stats)
+      .catch(async () => {
+        for (const listing of pending) {
+          try {
+            await importBatch([listing], scrapeRun, stats);
+          } catch (error) {
+            stats.errors++;
+            sightings.delete(listing.id);
+            console.error(`Error processing listing ${listing.id}:`, error);
+          }
+        }
+      })
+      .finally(() => inFlight.delete(task));
+    inFlight.add(task);
+    return task;
+  };
+  
+  // Process each listing
+  for await (const item of streamJsonArray(filePath)) {
+    stats.totalProcessed++;
+    
+    let listing: Prisma.ListingCreateInput | null;
+    try {
+      const parsed = adapter.parse(item, scrapeRun.scrapedAt);
+      listing = parsed && toListingRecord(adapter.name, parsed);
+    } catch (error) {
+      stats.errors++;
+      console.error(`Error processing listing ${item?.id || 'unknown'}:`, error);
+      continue;
     }
     
-    // Try to find in structured data if available
-    return item.bedrooms || undefined;
-  } catch (error) {
-    return undefined;
-  }
-}
-
-/**
- * Extract bathroom count from listing data
- */
-function extractBathroomCount(item: any): number | undefined {
-  try {
-    // Check different possible places where bathroom info might be stored
-    if (item.listing_title?.text && item.listing_title.text.includes('bathroom')) {
-      const match = item.listing_title.text.match(/(\d+)\s*bathroom/i);
-      if (match) return parseInt(match[1]);
+    if (!listing) {
+      stats.skippedListings++;
+      continue;
     }
     
-    if (item.description && item.description.includes('bathroom')) {
-      const match = item.description.match(/(\d+)\s*bathroom/i);
-      if (match) return parseInt(match[1]);
+    // A listing repeated within the file was already written with the same data
+    if (sightings.has(listing.id)) {
+      stats.updatedListings++;
+      continue;
     }
+    sightings.set(listing.id, sightings.size);
     
-    // Try to find in structured data if available
-    return item.bathrooms || undefined;
-  } catch (error) {
-    return undefined;
+    batch.push(listing);
+    if (batch.length >= options.batchSize) {
+      flush();
+      if (inFlight.size >= options.concurrency) {
+        await Promise.race(inFlight);
+      }
+    }
+  }
+  
+  if (batch.length > 0) {
+    flush();
   }
+  await Promise.all(inFlight);
+  
+  const { scrapedAt } = scrapeRun;
+  
+  // Link every listing in the file to this scrape run
+  await prisma.listingSighting.createMany({
+    data: Array.from(sightings, ([listingId, position]) => ({
+      listingId,
+      scrapeRunId: scrapeRun.id,
+      position
+    })),
+    skipDuplicates: true
+  });
+  await prisma.scrapeRun.update({
+    where: { id: scrapeRun.id },
+    data: { listingCount: sightings.size }
+  });
+  
+  // Anything that appeared in an earlier run of this search and hasn't been seen anywhere
+  // since has disappeared. An empty file is more likely a failed scrape than an empty
+  // market, so skip it. Skip it too if any listing failed to parse or write, since those
+  // are in the file but weren't marked as seen, and if a later run of the search has been
+  // imported, since reimporting an old file mustn't delist at its old timestamp.
+  const laterRun = await prisma.scrapeRun.findFirst({
+    where: { source: scrapeRun.source, search: scrapeRun.search, scrapedAt: { gt: scrapedAt } },
+    select: { id: true }
+  });
+  if (stats.errors > 0) {
+    console.warn(`Not marking listings as delisted, since ${stats.errors} listings in this file failed to import.`);
+  } else if (laterRun) {
+    console.log('Not marking listings as delisted, since a later run of this search has been imported.');
+  } else if (stats.totalProcessed > 0) {
+    const delisted = await prisma.listing.updateMany({
+      where: {
+        sightings: { some: { scrapeRun: { source: scrapeRun.source, search: scrapeRun.search } } },
+        lastSeenAt: { lt: scrapedAt },
+        delistedAt: null
+      },
+      data: { delistedAt: scrapedAt }
+    });
+    stats.delistedListings = delisted.count;
+  }
+  
+  return stats;
 }
 
-
-
 /**
- * Main function to process all JSON files in the data directory
+ * Main function to process all JSON files in the data directory.
+ * 
+ * Files already in the import manifest with the same content are skipped. Pass `--force` to
+ * reimport everything, or `--only <glob>` to reimport just the files whose path under data/
+ * matches the glob. `--batch-size` and `--concurrency` tune how listings are written.
+ * 
+ * Each file is validated against the scraper schema first; with `--strict`, files missing a
+ * required field are marked as failed instead of imported.
  */
 async function processAllFiles() {
   const dataDir = path.resolve(__dirname, '../data');
   console.log(`Searching for JSON files in ${dataDir}...`);
   
+  const force = hasFlag('--force');
+  const strict = hasFlag('--strict');
+  const onlyGlob = getOption('--only');
+  const options = {
+    batchSize: parseInt(getOption('--batch-size') || '') || DEFAULT_BATCH_SIZE,
+    concurrency: parseInt(getOption('--concurrency') || '') || DEFAULT_CONCURRENCY
+  };
+  
   // Find all JSON files
-  const jsonFiles = await findJsonFiles(dataDir);
-  console.log(`Found ${jsonFiles.length} JSON files to process.`);
+  let jsonFiles = await findJsonFiles(dataDir);
+  console.log(`Found ${jsonFiles.length} JSON files.`);
+  
+  if (onlyGlob) {
+    const pattern = globToRegExp(onlyGlob);
+    jsonFiles = jsonFiles.filter((filePath) =>
+      pattern.test(path.relative(dataDir, filePath).split(path.sep).join('/'))
+    );
+    console.log(`${jsonFiles.length} files match ${onlyGlob}.`);
+  }
+  
+  // Process files in scrape order so lifecycle fields and delistings follow the timeline
+  const scrapeContexts = new Map<string, ScrapeContext>();
+  for (const filePath of jsonFiles) {
+    scrapeContexts.set(filePath, await getScrapeContext(filePath, dataDir));
+  }
+  jsonFiles.sort((a, b) =>
+    scrapeContexts.get(a)!.scrapedAt.getTime() - scrapeContexts.get(b)!.scrapedAt.getTime()
+  );
   
   // Initialize total statistics
-  const totalStats: ImportStats = {
-    newListings: 0,
-    updatedListings: 0,
-    skippedListings: 0,
-    totalProcessed: 0,
-    errors: 0
-  };
+  const totalStats = createEmptyStats();
+  let skippedFiles = 0;
   
   // Process each file
   for (const filePath of jsonFiles) {
+    const context = scrapeContexts.get(filePath)!;
+    const contentHash = await hashFile(filePath);
+    
+    if (!force && !onlyGlob && await isAlreadyImported(prisma, context.filePath, contentHash)) {
+      skippedFiles++;
+      continue;
+    }
+    
     console.log(`\nProcessing file: ${path.basename(filePath)}`);
-    const stats = await importListings(filePath);
+    let stats: ImportStats;
+    try {
+      // Check the file against the scraper schema before importing anything from it
+      const adapter = getAdapterForFile(context.filePath);
+      const report = await validateFile(filePath, adapter);
+      const reportPath = await writeDriftReport(report, dataDir);
+      if (hasDrift(report)) {
+        console.warn(`Scraper output differs from the expected schema (report: ${reportPath}):\n${formatDriftSummary(report)}`);
+      }
+      if (strict && report.missingRequiredFields.length > 0) {
+        throw new Error(`Missing required fields: ${report.missingRequiredFields.join(', ')}`);
+      }
+      
+      const scrapeRun = await recordScrapeRun(prisma, context);
+      stats = await importListings(filePath, adapter, scrapeRun, options);
+      await recordImport(prisma, context.filePath, contentHash, {
+        status: stats.errors > 0 ? 'partial' : 'imported',
+        listingCount: stats.totalProcessed,
+        errorCount: stats.errors
+      });
+    } catch (error) {
+      console.error(`Error importing file ${filePath}:`, error);
+      stats = createEmptyStats();
+      stats.errors++;
+      await recordImport(prisma, context.filePath, contentHash, {
+        status: 'failed',
+        listingCount: 0,
+        errorCount: 1,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
     
     // Add to total stats
     totalStats.newListings += stats.newListings;
     totalStats.updatedListings += stats.updatedListings;
     totalStats.skippedListings += stats.skippedListings;
     totalStats.totalProcessed += stats.totalProcessed;
+    totalStats.delistedListings += stats.delistedListings;
     totalStats.errors += stats.errors;
     
     // Print file stats
@@ -395,15 +382,21 @@ async function processAllFiles() {
   - Updated listings: ${stats.updatedListings}
   - Skipped listings: ${stats.skippedListings}
   - Total processed: ${stats.totalProcessed}
+  - Delisted listings: ${stats.delistedListings}
   - Errors: ${stats.errors}`);
   }
   
+  if (skippedFiles > 0) {
+    console.log(`\nSkipped ${skippedFiles} files that were already imported (use --force to reimport them).`);
+  }
+  
   // Print total stats
   console.log(`\n===== TOTAL IMPORT STATISTICS =====
 - Total new listings: ${totalStats.newListings}
 - Total updated listings (including duplicates between files): ${totalStats.updatedListings}
 - Total skipped listings: ${totalStats.skippedListings}
 - Total listings processed: ${totalStats.totalProcessed}
+- Total delisted listings: ${totalStats.delistedListings}
 - Total errors: ${totalStats.errors}`);
 }
 
@@ -0,0 +1,62 @@
+import { PrismaClient } from '@prisma/client';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+
+// Outcome of importing a file, as recorded in the manifest
+export type ImportStatus = 'imported' | 'partial' | 'failed';
+
+/**
+ * Computes the SHA-256 hash of a file's contents without reading it all into memory
+ * @param filePath Path to the file
+ * @returns The hex-encoded hash
+ */
+export function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    fs.createReadStream(filePath)
+      .on('data', (chunk) => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject);
+  });
+}
+
+/**
+ * Checks the manifest for a successful import of this exact file content
+ * @param prisma The Prisma client
+ * @param filePath Path to the file, relative to data/
+ * @param contentHash Hash of the file's contents
+ */
+export async function isAlreadyImported(prisma: PrismaClient, filePath: string, contentHash: string): Promise<boolean> {
+  const entry = await prisma.importedFile.findUnique({
+    where: { filePath_contentHash: { filePath, contentHash } }
+  });
+  return entry?.status === 'imported';
+}
+
+/**
+ * Records the outcome of importing a file in the manifest
+ * @param prisma The Prisma client
+ * @param filePath Path to the file, relative to data/
+ * @param contentHash Hash of the file's contents
+ * @param result The import status, listing counts and error message, if any
+ */
+export async function recordImport(
+  prisma: PrismaClient,
+  filePath: string,
+  contentHash: string,
+  result: { status: ImportStatus; listingCount: number; errorCount: number; error?: string }
+): Promise<void> {
+  const data = {
+    status: result.status,
+    listingCount: result.listingCount,
+    errorCount: result.errorCount,
+    error: result.error || null,
+    importedAt: new Date()
+  };
+
+  await prisma.importedFile.upsert({
+    where: { filePath_contentHash: { filePath, contentHash } },
+    create: { filePath, contentHash, ...data },
+    update: data
+  });
+}
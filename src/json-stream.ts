@@ -0,0 +1,86 @@
+import * as fs from 'fs';
+
+/**
+ * Reads a file containing a top-level JSON array and yields its elements one at a time,
+ * so large scraper outputs never have to be held in memory as a whole.
+ * @param filePath Path to the JSON file
+ * @throws If the file isn't a JSON array or an element isn't valid JSON
+ */
+export async function* streamJsonArray(filePath: string): AsyncGenerator<any> {
+  const stream = fs.createReadStream(filePath, { encoding: 'utf-8' });
+
+  let started = false;
+  let finished = false;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  // Text of the element currently being read
+  let element = '';
+
+  for await (const chunk of stream as AsyncIterable<string>) {
+    let elementStart = 0;
+
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      if (!started) {
+        if (char === '[') {
+          started = true;
+          elementStart = i + 1;
+        } else if (!/\s/.test(char) && char !== '\uFEFF') {
+          throw new Error(`Expected a JSON array in ${filePath}`);
+        }
+        continue;
+      }
+
+      if (finished) {
+        if (!/\s/.test(char)) {
+          throw new Error(`Unexpected content after the JSON array in ${filePath}`);
+        }
+        continue;
+      }
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (char === '\\') {
+          escaped = true;
+        } else if (char === '"') {
+          inString = false;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        inString = true;
+      } else if (char === '{' || char === '[') {
+        depth++;
+      } else if ((char === '}' || char === ']') && depth > 0) {
+        depth--;
+      } else if (depth === 0 && (char === ',' || char === ']')) {
+        element += chunk.substring(elementStart, i);
+        elementStart = i + 1;
+
+        const text = element.trim();
+        element = '';
+        if (text) {
+          yield JSON.parse(text);
+        } else if (char === ',') {
+          throw new Error(`Empty array element in ${filePath}`);
+        }
+
+        if (char === ']') {
+          finished = true;
+        }
+      }
+    }
+
+    if (started && !finished) {
+      element += chunk.substring(elementStart);
+    }
+  }
+
+  if (!finished) {
+    throw new Error(`Unexpected end of JSON array in ${filePath}`);
+  }
+}
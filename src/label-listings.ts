@@ -0,0 +1,104 @@
+import { PrismaClient } from '@prisma/client';
+import * as readline from 'readline';
+import { VALID_CATEGORIES } from './categorize-listings';
+import { getOption } from './cli';
+
+// Initialize Prisma client
+const prisma = new PrismaClient();
+
+// Listings offered for labelling per session, unless --count is passed
+const DEFAULT_COUNT = 50;
+
+// Characters of the description shown while labelling
+const DESCRIPTION_PREVIEW_LENGTH = 600;
+
+/**
+ * Picks random listings that aren't in the gold set yet. Passing --category limits them to
+ * listings the model put in that category, to fill out categories the gold set is short on.
+ * @param count Number of listings to pick
+ * @param aiCategory The model's category to pick from, if any
+ */
+async function pickUnlabeledListings(count: number, aiCategory: string | undefined): Promise<string[]> {
+  const rows = aiCategory
+    ? await prisma.$queryRaw<{ id: string }[]>`
+        SELECT l.id FROM "Listing" l
+        LEFT JOIN "GoldLabel" g ON g."listingId" = l.id
+        WHERE g.id IS NULL AND NOT l."excludedFromStats" AND l.ai_category_v1 = ${aiCategory}
+        ORDER BY random() LIMIT ${count}`
+    : await prisma.$queryRaw<{ id: string }[]>`
+        SELECT l.id FROM "Listing" l
+        LEFT JOIN "GoldLabel" g ON g."listingId" = l.id
+        WHERE g.id IS NULL AND NOT l."excludedFromStats"
+        ORDER BY random() LIMIT ${count}`;
+  return rows.map((row) => row.id);
+}
+
+// Main function
+async function labelListings() {
+  const count = parseInt(getOption('--count') || String(DEFAULT_COUNT));
+  const aiCategory = getOption('--category');
+  const labeledBy = getOption('--labeler') || process.env.USER || null;
+
+  if (aiCategory && !VALID_CATEGORIES.includes(aiCategory)) {
+    throw new Error(`Invalid category "${aiCategory}". Valid categories are: ${VALID_CATEGORIES.join(', ')}`);
+  }
+
+  const ids = await pickUnlabeledListings(count, aiCategory);
+  if (ids.length === 0) {
+    console.log('No unlabelled listings left');
+    return;
+  }
+
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  const ask = (question: string) => new Promise<string>((resolve) => rl.question(question, resolve));
+
+  const menu = VALID_CATEGORIES.map((category, index) => `${index + 1}) ${category}`).join('  ');
+  let labeled = 0;
+
+  try {
+    for (const [position, id] of ids.entries()) {
+      const listing = await prisma.listing.findUnique({ where: { id } });
+      if (!listing) continue;
+
+      const description = listing.description || '';
+      console.log(`\n===== ${position + 1}/${ids.length}: ${listing.id} =====`);
+      console.log(listing.listingTitle || 'Untitled');
+      console.log(`$${listing.price}${listing.billingPeriod ? ` per ${listing.billingPeriod}` : ''} | ${listing.city || 'unknown city'} | bedrooms: ${listing.bedrooms ?? '?'} | bathrooms: ${listing.bathrooms ?? '?'}`);
+      console.log(description.substring(0, DESCRIPTION_PREVIEW_LENGTH) + (description.length > DESCRIPTION_PREVIEW_LENGTH ? '...' : ''));
+      if (listing.listingUrl) console.log(listing.listingUrl);
+      // The model's category isn't shown, so the gold set stays an independent check on it
+      console.log(menu);
+
+      let category: string | undefined;
+      while (!category) {
+        const answer = (await ask('Category number, s to skip, q to quit: ')).trim().toLowerCase();
+        if (answer === 'q') return;
+        if (answer === 's') break;
+        if (/^\d+$/.test(answer)) category = VALID_CATEGORIES[parseInt(answer) - 1];
+        if (!category) console.log(`Type a number from 1 to ${VALID_CATEGORIES.length}`);
+      }
+      if (!category) continue;
+
+      await prisma.goldLabel.upsert({
+        where: { listingId: listing.id },
+        create: { listingId: listing.id, category, labeledBy },
+        update: { category, labeledBy }
+      });
+      labeled++;
+    }
+  } finally {
+    rl.close();
+    const total = await prisma.goldLabel.count();
+    console.log(`\nLabelled ${labeled} listings this session; the gold set has ${total}`);
+  }
+}
+
+if (require.main === module) {
+  labelListings()
+    .then(() => prisma.$disconnect())
+    .catch((error) => {
+      console.error('Labelling failed:', error);
+      prisma.$disconnect();
+      process.exit(1);
+    });
+}
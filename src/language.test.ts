@@ -0,0 +1,18 @@
+import * as assert from 'assert';
+import { test } from 'node:test';
+import { parseQuebecRoomCount } from './language';
+
+test('Quebec room counts give a number of bedrooms', () => {
+  assert.strictEqual(parseQuebecRoomCount('4 1/2 à louer'), 2);
+  assert.strictEqual(parseQuebecRoomCount('Beau 3½ chauffé et éclairé, près du métro'), 1);
+  assert.strictEqual(parseQuebecRoomCount('Grand 5 et demi dans le Plateau, disponible en juillet'), 3);
+  assert.strictEqual(parseQuebecRoomCount('Renovated 4 1/2 apartment in Rosemont'), 2);
+  assert.strictEqual(parseQuebecRoomCount('3 1/2 Rosemont', 'fr'), 1);
+});
+
+test('fractions in English listings are not room counts', () => {
+  assert.strictEqual(parseQuebecRoomCount('Spacious 2 bedroom townhouse with 1 1/2 bath'), undefined);
+  assert.strictEqual(parseQuebecRoomCount('Bright 3 bedroom, 2 1/2 baths, close to schools'), undefined);
+  assert.strictEqual(parseQuebecRoomCount('Charming 1 1/2 storey house on a quiet street'), undefined);
+  assert.strictEqual(parseQuebecRoomCount('Only 1 1/2 blocks from the university'), undefined);
+});
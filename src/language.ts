@@ -0,0 +1,62 @@
+// Languages we detect; everything that isn't clearly French is treated as English
+export type Language = 'en' | 'fr';
+
+// Common words that are distinctive to each language in rental listings
+const FRENCH_WORDS = new Set([
+  'le', 'la', 'les', 'des', 'du', 'un', 'une', 'et', 'est', 'avec', 'pour', 'dans', 'sur', 'au', 'aux',
+  'logement', 'appartement', 'chambre', 'chambres', 'cuisine', 'salle', 'bain', 'louer', 'disponible',
+  'inclus', 'incluse', 'chauffé', 'éclairé', 'animaux', 'stationnement', 'laveuse', 'sécheuse', 'bail',
+  'proche', 'près', 'métro', 'quartier', 'très', 'mois', 'juillet'
+]);
+const ENGLISH_WORDS = new Set([
+  'the', 'and', 'with', 'for', 'is', 'in', 'on', 'to', 'of', 'a', 'an', 'this', 'are', 'near',
+  'apartment', 'bedroom', 'bedrooms', 'bathroom', 'kitchen', 'rent', 'available', 'included', 'heat',
+  'pets', 'parking', 'laundry', 'lease', 'close', 'walking', 'distance', 'month', 'utilities'
+]);
+
+// A text must contain at least this many distinctive words before we call it French
+const MIN_FRENCH_WORDS = 3;
+
+/**
+ * Detects whether listing text is French or English by counting distinctive words
+ * @param text The title and description
+ */
+export function detectLanguage(text: string): Language {
+  let french = 0;
+  let english = 0;
+  for (const word of text.toLowerCase().split(/[^a-zà-ÿ']+/)) {
+    // Elided articles, e.g. l'appartement
+    const stripped = word.replace(/^[ldjnsc]'/, '');
+    if (FRENCH_WORDS.has(stripped)) french++;
+    if (ENGLISH_WORDS.has(stripped)) english++;
+  }
+  return french >= MIN_FRENCH_WORDS && french > english ? 'fr' : 'en';
+}
+
+// Quebec's room count convention, e.g. "4 1/2", "4½" or "4 et demi": rooms other than the
+// bathroom, which counts as the half
+const QUEBEC_ROOMS_PATTERN = /\b([1-8])\s*(?:1\/2|½|et\s+demie?)(?![\d/])/gi;
+
+// What may follow a room count in English text, where "1 1/2" is as likely a bathroom or storey
+// count: a word for the unit, or the end of the phrase, e.g. "4 1/2 à louer" or "Rosemont 3 1/2 -"
+const ROOM_COUNT_CUE = /^\s*(?:$|[-–,;:!)]|\.(?!\d)|(?:pi[eè]ces?|pcs?|appartement|appart|apartment|apt|unit|logement|condo|[aà]\s+louer)(?![a-zà-ÿ]))/i;
+
+/**
+ * Converts a Quebec-style room count to a number of bedrooms: a 1 1/2 or 2 1/2 is a studio, a
+ * 3 1/2 has one bedroom, a 4 1/2 two, and so on (the kitchen and living room make up the rest)
+ * @param text The title or description
+ * @param language The listing's language, if known from more than this text; in English, a room
+ * count must be followed by a word for the unit or the end of the phrase
+ * @returns The bedroom count, or undefined if the text has no room count
+ */
+export function parseQuebecRoomCount(text: string, language: Language = detectLanguage(text)): number | undefined {
+  for (const match of text.matchAll(QUEBEC_ROOMS_PATTERN)) {
+    const rest = text.substring(match.index! + match[0].length);
+    // "2.5 bathrooms" is a bathroom count, not a room count
+    if (/^\s*(?:bath|ba\b|salles?\s+de\s+bain)/i.test(rest)) continue;
+    if (language === 'fr' || ROOM_COUNT_CUE.test(rest)) {
+      return Math.max(0, parseInt(match[1]) - 2);
+    }
+  }
+  return undefined;
+}
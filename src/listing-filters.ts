@@ -0,0 +1,24 @@
+import { Prisma } from '@prisma/client';
+import { hasFlag } from './cli';
+
+// Listings that count towards statistics and exports: everything not flagged as a likely scam,
+// placeholder or outlier by `npm run flag`
+export const INCLUDED_IN_STATS: Prisma.ListingWhereInput = { excludedFromStats: false };
+
+// Listings with an AI category. The original importer wrote '' for uncategorized listings, so
+// that counts as uncategorized too, as it does for `npm run categorize`.
+export const CATEGORIZED: Prisma.ListingWhereInput = {
+  AND: [{ ai_category_v1: { not: null } }, { ai_category_v1: { not: '' } }]
+};
+
+/**
+ * Gets the filter a statistics or export script should apply to listings. Flagged listings are
+ * left out unless the script was run with `--include-flagged`.
+ * @param where Any further conditions on the listings
+ */
+export function getStatsFilter(where: Prisma.ListingWhereInput = {}): Prisma.ListingWhereInput {
+  if (hasFlag('--include-flagged')) {
+    return where;
+  }
+  return { AND: [INCLUDED_IN_STATS, where] };
+}
@@ -0,0 +1,24 @@
+import { PrismaClient } from '@prisma/client';
+
+// Initialize Prisma client
+const prisma = new PrismaClient();
+
+// Listings imported before IDs were namespaced by source used the raw Facebook ID. This prefixes
+// them with `facebook:` and records the raw ID in sourceId. Price history, categorizations and
+// sightings follow along through their foreign keys' ON UPDATE CASCADE.
+async function namespaceListingIds() {
+  const updated = await prisma.$executeRaw`
+    UPDATE "Listing"
+    SET "sourceId" = id, id = 'facebook:' || id
+    WHERE source = 'facebook' AND "sourceId" IS NULL AND id NOT LIKE 'facebook:%'
+  `;
+  console.log(`Namespaced ${updated} listing IDs`);
+}
+
+namespaceListingIds()
+  .then(() => prisma.$disconnect())
+  .catch((error) => {
+    console.error('Failed to namespace listing IDs:', error);
+    prisma.$disconnect();
+    process.exit(1);
+  });
@@ -0,0 +1,109 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { normalizePrice } from './price-normalization';
+
+// Initialize Prisma client
+const prisma = new PrismaClient();
+
+// Listings read and updated per round trip
+const PAGE_SIZE = 1000;
+
+// Interface for the listing data a price is normalized from
+interface ListingForNormalization {
+  id: string;
+  price: Prisma.Decimal;
+  listingTitle: string | null;
+  description: string | null;
+  ai_category_v1: string | null;
+  bedrooms: number | null;
+  billingPeriod: string | null;
+  pricePerPerson: boolean;
+  monthlyRent: Prisma.Decimal | null;
+}
+
+/**
+ * Recomputes the billing period and monthly rent of every listing and its price history. The
+ * importer normalizes prices before listings are categorized; run this after `npm run categorize`
+ * so the AI category (e.g. `airbnb` for nightly rentals) is taken into account.
+ */
+async function normalizePrices() {
+  let cursor: string | undefined;
+  let processed = 0;
+  let changed = 0;
+  const countByPeriod = new Map<string, number>();
+
+  while (true) {
+    const listings: ListingForNormalization[] = await prisma.listing.findMany({
+      select: {
+        id: true,
+        price: true,
+        listingTitle: true,
+        description: true,
+        ai_category_v1: true,
+        bedrooms: true,
+        billingPeriod: true,
+        pricePerPerson: true,
+        monthlyRent: true
+      },
+      orderBy: { id: 'asc' },
+      take: PAGE_SIZE,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {})
+    });
+    if (listings.length === 0) break;
+    cursor = listings[listings.length - 1].id;
+
+    const writes: Prisma.PrismaPromise<unknown>[] = [];
+    for (const listing of listings) {
+      const normalized = normalizePrice({
+        price: listing.price.toNumber(),
+        listingTitle: listing.listingTitle,
+        description: listing.description,
+        category: listing.ai_category_v1,
+        bedrooms: listing.bedrooms
+      });
+      const monthlyRent = new Prisma.Decimal(normalized.monthlyRent.toFixed(2));
+      countByPeriod.set(normalized.billingPeriod, (countByPeriod.get(normalized.billingPeriod) || 0) + 1);
+
+      const isUnchanged = listing.billingPeriod === normalized.billingPeriod &&
+        listing.pricePerPerson === normalized.pricePerPerson &&
+        listing.monthlyRent !== null && listing.monthlyRent.equals(monthlyRent);
+      if (isUnchanged) continue;
+
+      changed++;
+      writes.push(prisma.listing.update({
+        where: { id: listing.id },
+        data: {
+          billingPeriod: normalized.billingPeriod,
+          pricePerPerson: normalized.pricePerPerson,
+          monthlyRent
+        }
+      }));
+      // Past prices were charged the same way as the current one
+      writes.push(prisma.$executeRaw`
+        UPDATE "PriceHistory"
+        SET "monthlyRent" = ROUND(price * ${normalized.multiplier}::numeric, 2)
+        WHERE "listingId" = ${listing.id}
+      `);
+    }
+
+    await prisma.$transaction(writes);
+    processed += listings.length;
+    console.log(`Normalized ${processed} listings...`);
+  }
+
+  console.log(`\n===== PRICE NORMALIZATION COMPLETE =====`);
+  console.log(`Listings processed: ${processed}`);
+  console.log(`Listings updated: ${changed}`);
+  for (const [period, count] of countByPeriod) {
+    console.log(`Priced per ${period}: ${count}`);
+  }
+}
+
+if (require.main === module) {
+  normalizePrices()
+    .then(() => prisma.$disconnect())
+    .catch((error) => {
+      console.error('Price normalization failed:', error);
+      prisma.$disconnect();
+      process.exit(1);
+    });
+}
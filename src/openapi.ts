@@ -0,0 +1,199 @@
+/**
+ * Describes an error response, whose body is `{ "error": "<message>" }`
+ */
+const errorResponse = (description: string) => ({
+  description,
+  content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } }
+});
+
+/**
+ * Describes a property that may be null
+ */
+const nullable = (type: string, extra: Record<string, unknown> = {}) => ({ type, nullable: true, ...extra });
+
+// OpenAPI description of the read-only API served by `npm run api`, at /openapi.json
+export const OPENAPI_SPEC = {
+  openapi: '3.0.3',
+  info: {
+    title: 'Better Rental Data API',
+    version: '1.0.0',
+    description: 'Read-only access to market-rate rental listings and rent statistics from Canadian cities. ' +
+      'Listings flagged as likely scams, placeholders or outliers are left out, and listing text and ' +
+      'locations are redacted as in the published dataset.'
+  },
+  paths: {
+    '/listings': {
+      get: {
+        summary: 'Search listings',
+        description: 'Listings matching every filter given, newest first. Prices are compared against the monthly rent, ' +
+          'or the listed price for listings whose price hasn\'t been normalized. Pass the nextCursor of a page as cursor to get the next one.',
+        parameters: [
+          { name: 'city', in: 'query', schema: { type: 'string' }, description: 'City, matched case-insensitively' },
+          { name: 'category', in: 'query', schema: { type: 'string', example: '1bdr apartment' }, description: 'Category' },
+          { name: 'minPrice', in: 'query', schema: { type: 'number' }, description: 'Lowest monthly rent, in CAD' },
+          { name: 'maxPrice', in: 'query', schema: { type: 'number' }, description: 'Highest monthly rent, in CAD' },
+          { name: 'bedrooms', in: 'query', schema: { type: 'integer', minimum: 0 }, description: 'Number of bedrooms; 0 for a studio' },
+          { name: 'petFriendly', in: 'query', schema: { type: 'boolean' }, description: 'Whether pets are allowed' },
+          { name: 'listedAfter', in: 'query', schema: { type: 'string', format: 'date' }, description: 'Listed on or after this date' },
+          { name: 'listedBefore', in: 'query', schema: { type: 'string', format: 'date' }, description: 'Listed on or before this date' },
+          { name: 'limit', in: 'query', schema: { type: 'integer', minimum: 1, maximum: 100, default: 25 }, description: 'Listings per page' },
+          { name: 'cursor', in: 'query', schema: { type: 'string' }, description: 'nextCursor from the previous page' }
+        ],
+        responses: {
+          200: {
+            description: 'A page of listings',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    data: { type: 'array', items: { $ref: '#/components/schemas/Listing' } },
+                    nextCursor: nullable('string', { description: 'Cursor for the next page; null on the last page' })
+                  }
+                }
+              }
+            }
+          },
+          400: errorResponse('A query parameter is invalid')
+        }
+      }
+    },
+    '/listings/{id}/price-history': {
+      get: {
+        summary: 'Get a listing\'s price history',
+        description: 'The listing\'s price every time it was scraped, oldest first.',
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string', example: 'facebook:1234567890' }, description: 'Listing ID' }
+        ],
+        responses: {
+          200: {
+            description: 'The price history',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    listingId: { type: 'string' },
+                    history: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          price: { type: 'number', description: 'Price as listed, in CAD' },
+                          monthlyRent: nullable('number', { description: 'Price converted to a monthly rent for the whole unit' }),
+                          recordedAt: { type: 'string', format: 'date-time' }
+                        }
+                      }
+                    }
+                  }
+                }
+              }
+            }
+          },
+          404: errorResponse('No listing with this ID, or it\'s flagged')
+        }
+      }
+    },
+    '/statistics': {
+      get: {
+        summary: 'Get rent statistics',
+        description: 'Rent statistics by city, category and period, as in `npm run report`. Each unit counts once per period. ' +
+          'Results are cached for a few minutes.',
+        parameters: [
+          { name: 'city', in: 'query', schema: { type: 'string' }, description: 'City, matched case-insensitively' },
+          { name: 'category', in: 'query', schema: { type: 'string' }, description: 'Category' },
+          { name: 'period', in: 'query', schema: { type: 'string', enum: ['month', 'week'], default: 'month' }, description: 'Length of the periods' },
+          { name: 'from', in: 'query', schema: { type: 'string', example: '2025-01' }, description: 'First period, e.g. 2025-01 for months or 2025-01-06 for weeks' },
+          { name: 'to', in: 'query', schema: { type: 'string', example: '2025-06' }, description: 'Last period' },
+          { name: 'minSample', in: 'query', schema: { type: 'integer', minimum: 1, default: 10 }, description: 'Cells with fewer units are marked lowSample' }
+        ],
+        responses: {
+          200: {
+            description: 'The statistics',
+            headers: {
+              'X-Cache': { schema: { type: 'string', enum: ['HIT', 'MISS'] }, description: 'Whether the statistics came from the cache' }
+            },
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    generatedAt: { type: 'string', format: 'date-time' },
+                    period: { type: 'string', enum: ['month', 'week'] },
+                    minSample: { type: 'integer' },
+                    cells: { type: 'array', items: { $ref: '#/components/schemas/StatisticsCell' } }
+                  }
+                }
+              }
+            }
+          },
+          400: errorResponse('A query parameter is invalid')
+        }
+      }
+    },
+    '/openapi.json': {
+      get: {
+        summary: 'Get this description',
+        responses: { 200: { description: 'The OpenAPI description', content: { 'application/json': {} } } }
+      }
+    }
+  },
+  components: {
+    schemas: {
+      Listing: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', description: 'Listing ID, namespaced by source' },
+          source: { type: 'string', enum: ['facebook', 'kijiji'] },
+          title: nullable('string', { description: 'Title, with personal information masked' }),
+          description: nullable('string', { description: 'Description, with personal information masked' }),
+          language: { type: 'string', enum: ['en', 'fr'] },
+          city: nullable('string'),
+          province: nullable('string'),
+          street: nullable('string', { description: 'Street without its civic or unit number, e.g. MAIN ST' }),
+          fsa: nullable('string', { description: 'Forward sortation area, e.g. B3H' }),
+          latitude: nullable('number', { description: 'Rounded to 3 decimal places' }),
+          longitude: nullable('number', { description: 'Rounded to 3 decimal places' }),
+          category: nullable('string'),
+          price: { type: 'number', description: 'Price as listed, in CAD' },
+          billingPeriod: nullable('string', { enum: ['night', 'week', 'month'] }),
+          pricePerPerson: { type: 'boolean' },
+          monthlyRent: nullable('number', { description: 'Price converted to a monthly rent for the whole unit' }),
+          allInRent: nullable('number', { description: 'Monthly rent plus estimated utilities' }),
+          bedrooms: nullable('integer'),
+          bathrooms: nullable('number'),
+          squareFeet: nullable('integer'),
+          petFriendly: nullable('boolean'),
+          amenities: { type: 'array', items: { type: 'string' } },
+          availableDate: nullable('string', { format: 'date-time' }),
+          listedDate: { type: 'string', format: 'date-time' },
+          firstSeenAt: nullable('string', { format: 'date-time' }),
+          lastSeenAt: nullable('string', { format: 'date-time' }),
+          delistedAt: nullable('string', { format: 'date-time', description: 'Null while the listing is up' })
+        }
+      },
+      StatisticsCell: {
+        type: 'object',
+        properties: {
+          city: { type: 'string' },
+          category: { type: 'string' },
+          period: { type: 'string' },
+          count: { type: 'integer', description: 'Units listed' },
+          median: { type: 'number' },
+          mean: { type: 'number' },
+          firstQuartile: { type: 'number' },
+          thirdQuartile: { type: 'number' },
+          allInCount: { type: 'integer' },
+          allInMedian: nullable('number'),
+          lowSample: { type: 'boolean' },
+          changeFromPreviousPeriod: nullable('number', { description: 'Change in median as a fraction' }),
+          changeFromYearEarlier: nullable('number', { description: 'Change in median as a fraction' })
+        }
+      },
+      Error: {
+        type: 'object',
+        properties: { error: { type: 'string' } }
+      }
+    }
+  }
+};
@@ -0,0 +1,44 @@
+import * as assert from 'assert';
+import { test } from 'node:test';
+import { normalizePrice } from './price-normalization';
+
+test('wording about who the listing is for is not a per-person price', () => {
+  const tenant = normalizePrice({ price: 2400, description: 'Looking for a tenant for our 2 bedroom unit', bedrooms: 2 });
+  assert.strictEqual(tenant.pricePerPerson, false);
+  assert.strictEqual(tenant.monthlyRent, 2400);
+
+  const student = normalizePrice({ price: 1800, description: 'Perfect for a student, close to campus', bedrooms: 3 });
+  assert.strictEqual(student.pricePerPerson, false);
+  assert.strictEqual(student.monthlyRent, 1800);
+});
+
+test('negated nightly wording does not make a price nightly', () => {
+  for (const description of ['Monthly lease only, no nightly or weekly rentals', 'Not an Airbnb - no nightly stays', 'Not available per night']) {
+    const normalized = normalizePrice({ price: 1500, description });
+    assert.strictEqual(normalized.billingPeriod, 'month', description);
+    assert.strictEqual(normalized.monthlyRent, 1500, description);
+  }
+});
+
+test('negation only reaches the clause it is in', () => {
+  assert.strictEqual(normalizePrice({ price: 450, description: 'No pets, rent is paid per week' }).billingPeriod, 'week');
+  assert.strictEqual(normalizePrice({ price: 450, description: 'No pets, $450/week' }).billingPeriod, 'week');
+  assert.strictEqual(normalizePrice({ price: 500, description: 'Not furnished - paid per week' }).billingPeriod, 'week');
+});
+
+test('wording attached to other prices does not change the billing period', () => {
+  const normalized = normalizePrice({ price: 1800, description: 'No pets, $50/week parking' });
+  assert.strictEqual(normalized.billingPeriod, 'month');
+  assert.strictEqual(normalized.monthlyRent, 1800);
+});
+
+test('period and per-person wording still counts', () => {
+  assert.strictEqual(normalizePrice({ price: 80, description: 'Cozy suite, $80/night' }).billingPeriod, 'night');
+  assert.strictEqual(normalizePrice({ price: 90, description: 'Nightly rate includes cleaning' }).billingPeriod, 'night');
+  assert.strictEqual(normalizePrice({ price: 450, description: 'Rent is paid per week' }).billingPeriod, 'week');
+  assert.strictEqual(normalizePrice({ price: 450, description: '450 $ par semaine' }).billingPeriod, 'week');
+
+  const perPerson = normalizePrice({ price: 800, description: '$800 per person, utilities included', category: '3bdr apartment' });
+  assert.strictEqual(perPerson.pricePerPerson, true);
+  assert.strictEqual(perPerson.monthlyRent, 2400);
+});
@@ -0,0 +1,137 @@
+// How often a listed price is charged
+export type BillingPeriod = 'night' | 'week' | 'month';
+
+// Average days and weeks in a month
+const NIGHTS_PER_MONTH = 365 / 12;
+const WEEKS_PER_MONTH = 52 / 12;
+
+// A price followed by what it's for, e.g. "$450/week", "80 a night", "$800 per person", "450 $ par semaine"
+const PRICE_UNIT_PATTERN = /\$?\s*(\d{1,3}(?:,\d{3})+|\d+)(?:\.\d{2})?\s*\$?\s*(?:\/|\bper\b|\bpar\b|\ba\b|\ban\b|\beach\b)\s*(night|nt|nuit|week|wk|semaine|month|mo|mois|person|tenant|student|occupant|personne)\b/gi;
+
+// Period and per-person wording that isn't attached to a number. Only phrases about a price count:
+// "nightly" on its own is as likely to be "no nightly rentals", and "a tenant" or "a student" is
+// who the listing is looking for.
+const NIGHTLY_PATTERN = /\bnightly\s+(?:rent|rate|price)\b|\bper\s+night\b|\/\s*night\b|\bpar\s+nuit\b/gi;
+const WEEKLY_PATTERN = /\bweekly\s+(?:rent|rate|price)\b|\bper\s+week\b|\/\s*(?:week|wk)\b|\bpar\s+semaine\b/gi;
+const PER_PERSON_PATTERN = /\b(?:per|each)\s+(?:person|tenant|student|occupant)\b|\/\s*person\b|\bpp\b|\bpar\s+personne\b/gi;
+
+// A negation shortly before a phrase in the same clause, e.g. "no nightly or per night stays" but
+// not "no pets, paid per week"
+const NEGATION_PATTERN = /\b(?:no|not|never|non|pas|aucune?|sans)\b(?:(?![.!?\n,;:()]|\s[-–—]\s).){0,30}$/i;
+
+// Listing details used to work out what a price is for
+export interface PriceInput {
+  price: number;
+  listingTitle?: string | null;
+  description?: string | null;
+  category?: string | null;
+  bedrooms?: number | null;
+}
+
+// What a listed price covers, and what it comes to per month for the whole unit
+export interface NormalizedPrice {
+  billingPeriod: BillingPeriod;
+  pricePerPerson: boolean;
+  // What the listed price is multiplied by to get monthlyRent
+  multiplier: number;
+  monthlyRent: number;
+}
+
+/**
+ * Maps the unit word of a price mention to a billing period, or null if it's about people
+ */
+function toBillingPeriod(unit: string): BillingPeriod | null {
+  switch (unit.toLowerCase()) {
+    case 'night':
+    case 'nt':
+    case 'nuit':
+      return 'night';
+    case 'week':
+    case 'wk':
+    case 'semaine':
+      return 'week';
+    case 'month':
+    case 'mo':
+    case 'mois':
+      return 'month';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Checks whether the text has a phrase that isn't negated, so "per night" counts but
+ * "not available per night" doesn't
+ */
+function hasUnnegatedMatch(pattern: RegExp, text: string): boolean {
+  for (const match of text.matchAll(pattern)) {
+    if (!NEGATION_PATTERN.test(text.substring(0, match.index))) return true;
+  }
+  return false;
+}
+
+/**
+ * Number of bedrooms implied by an apartment category such as `2bdr apartment`
+ */
+function bedroomsFromCategory(category: string | null | undefined): number | null {
+  const match = category?.match(/^(\d)bdr apartment$/);
+  return match ? parseInt(match[1]) : null;
+}
+
+/**
+ * Works out whether a price is nightly, weekly or monthly and whether it's per person, and
+ * converts it to a monthly rent for the whole unit.
+ *
+ * Price mentions in the text whose amount matches the listed price decide the period; failing
+ * that, nightly or weekly wording that isn't negated or attached to another price does, and the
+ * `airbnb` category implies nightly. A per-person price for an apartment is multiplied by its
+ * bedroom count; for rooms and beds it already covers what's being rented.
+ * @param input The listed price and the listing details that describe it
+ */
+export function normalizePrice(input: PriceInput): NormalizedPrice {
+  const text = `${input.listingTitle || ''}\n${input.description || ''}`;
+
+  let billingPeriod: BillingPeriod | null = null;
+  let pricePerPerson = false;
+
+  // The text without mentions of other prices, e.g. "$50/week parking", so their wording isn't
+  // taken for the listed price's
+  let looseText = text;
+
+  for (const match of text.matchAll(PRICE_UNIT_PATTERN)) {
+    const amount = parseFloat(match[1].replace(/,/g, ''));
+    if (Math.abs(amount - input.price) > 1) {
+      looseText = looseText.substring(0, match.index) + ' '.repeat(match[0].length) + looseText.substring(match.index! + match[0].length);
+      continue;
+    }
+
+    const period = toBillingPeriod(match[2]);
+    if (period) billingPeriod = billingPeriod || period;
+    else pricePerPerson = true;
+  }
+
+  if (!billingPeriod) {
+    if (hasUnnegatedMatch(NIGHTLY_PATTERN, looseText) || input.category === 'airbnb') billingPeriod = 'night';
+    else if (hasUnnegatedMatch(WEEKLY_PATTERN, looseText)) billingPeriod = 'week';
+    else billingPeriod = 'month';
+  }
+  pricePerPerson = pricePerPerson || hasUnnegatedMatch(PER_PERSON_PATTERN, looseText);
+
+  let multiplier = 1;
+  if (billingPeriod === 'night') multiplier = NIGHTS_PER_MONTH;
+  if (billingPeriod === 'week') multiplier = WEEKS_PER_MONTH;
+
+  // Rooms and beds are rented per person anyway
+  const isSharedCategory = input.category === 'bedroom' || input.category === 'bed';
+  if (pricePerPerson && !isSharedCategory) {
+    const bedrooms = bedroomsFromCategory(input.category) || input.bedrooms;
+    if (bedrooms && bedrooms > 1) multiplier *= bedrooms;
+  }
+
+  return {
+    billingPeriod,
+    pricePerPerson: pricePerPerson && !isSharedCategory,
+    multiplier,
+    monthlyRent: Math.round(input.price * multiplier * 100) / 100
+  };
+}
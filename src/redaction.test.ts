@@ -0,0 +1,37 @@
+import * as assert from 'assert';
+import { test } from 'node:test';
+import { redactText } from './redaction';
+
+test('civic numbers before a street are masked', () => {
+  assert.strictEqual(redactText('123 Main Street, Halifax'), '[number] Main Street, Halifax');
+  assert.strictEqual(redactText('4-123 Main St'), '[number] Main St');
+  assert.strictEqual(redactText('2010 Gottingen St'), '[number] Gottingen St');
+  assert.strictEqual(redactText('12 St. Margarets Bay Rd'), '[number] St. Margarets Bay Rd');
+  assert.strictEqual(redactText('4521 rue Saint-Denis'), '[number] rue Saint-Denis');
+  assert.strictEqual(redactText('100 rue de la Montagne'), '[number] rue de la Montagne');
+  assert.strictEqual(redactText('55 ch. Sainte-Foy'), '[number] ch. Sainte-Foy');
+});
+
+test('numbers that aren\'t addresses are kept', () => {
+  for (const text of [
+    'Built in 1985 on a quiet street',
+    '1500 sq ft',
+    '1500 SQ FT',
+    'Close to 3 Parks',
+    'Close to 3 parks and Main St',
+    '3 Parks. Main St is nearby',
+    '2 blocks from Quinpool Rd',
+    '5 min to Spring Garden Rd'
+  ]) {
+    assert.strictEqual(redactText(text), text);
+  }
+});
+
+test('contact details, names and unit numbers are masked', () => {
+  assert.strictEqual(
+    redactText('Call John Smith at 902-555-1234 or email jsmith@gmail.com. Contact Us anytime!'),
+    'Call [name] at [phone] or email [email]. Contact Us anytime!'
+  );
+  assert.strictEqual(redactText('Unit 4, B3H 4R2'), 'Unit [unit], B3H [postal code]');
+  assert.strictEqual(redactText('Appartement 4 1/2, app. 3'), 'Appartement 4 1/2, app. [unit]');
+});
@@ -0,0 +1,317 @@
+import { parseAddress, STREET_TYPES } from './address';
+
+// Kinds of personal information we detect and mask
+export type RedactionKind = 'email' | 'url' | 'phone' | 'postal_code' | 'civic_number' | 'unit' | 'name';
+
+// Listing fields that are redacted before they're released
+export type RedactedField = 'listingTitle' | 'description' | 'streetAddress';
+
+// Counts of masked values by kind
+export type RedactionCounts = Record<RedactionKind, number>;
+
+// What was redacted from a set of listings, written next to every export so we can show what was
+// done to make it safe to release; a type rather than an interface so it can be serialized as JSON
+export type RedactionReport = {
+  createdAt: string;
+  coordinatePrecision: number;
+  listings: number;
+  // Listings with at least one value masked or coordinate coarsened
+  listingsRedacted: number;
+  coordinatesCoarsened: number;
+  redactions: Record<RedactedField, RedactionCounts>;
+  // Detections still present after redaction, from scanning the redacted text again; all zero
+  // unless a mask lets a match through
+  residual: RedactionCounts;
+  withheldFields: string[];
+};
+
+// The listing fields the redactor reads
+export interface ListingText {
+  listingTitle: string | null;
+  description: string | null;
+  streetAddress: string | null;
+  postalCode: string | null;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+// A listing's fields as they may be released
+export interface RedactedListing {
+  listingTitle: string | null;
+  description: string | null;
+  // The street without its civic or unit number, e.g. MAIN ST
+  street: string | null;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+// Redacts listings and keeps count of what it masked
+export interface Redactor {
+  coordinatePrecision: number;
+  redactListing(listing: ListingText): RedactedListing;
+  getReport(): RedactionReport;
+}
+
+// Decimal places coordinates are rounded to by default, about 100m, so a listing can't be traced to a door
+export const DEFAULT_COORDINATE_PRECISION = 3;
+
+// Listing fields that are never released at all, whatever the redaction: photos may show people,
+// listing URLs lead to the poster's profile, and the normalized address and unit number identify
+// the unit exactly
+export const WITHHELD_FIELDS = ['imageUrl', 'listingUrl', 'normalizedAddress', 'unitNumber', 'postalCode'];
+
+// Words that follow a name cue such as "contact" or "call" without being a name, e.g. "Contact Us"
+const NOT_NAMES = new Set([
+  'a', 'an', 'the', 'me', 'us', 'you', 'him', 'her', 'them', 'i', 'my', 'our', 'your', 'for', 'or', 'and',
+  'at', 'to', 'in', 'on', 'by', 'via', 'with', 'if', 'now', 'today', 'tonight', 'anytime', 'any', 'asap',
+  'soon', 'back', 'directly', 'please', 'more', 'info', 'information', 'details', 'landlord', 'owner',
+  'agent', 'property', 'management', 'manager', 'office', 'text', 'call', 'email', 'phone', 'number',
+  'cell', 'again', 'advance', 'all', 'everyone', 'only', 'monday', 'tuesday', 'wednesday', 'thursday',
+  'friday', 'saturday', 'sunday', 'nous', 'moi', 'pour', 'au', 'le', 'la', 'les', 'ou', 'svp', 'par'
+]);
+
+// A word that may be a name; case is checked separately since the cues are matched case-insensitively
+const NAME_WORD = "[a-zà-ÿ][a-zà-ÿ'-]+";
+
+// Words a quantity is followed by, which aren't street names, e.g. "2 blocks from Quinpool Rd" or
+// "1500 SQ FT"
+const QUANTITY_WORDS = 'min|mins|minutes?|km|blocks?|beds?|bedrooms?|br|bdr|baths?|bathrooms?|rooms?|chambres?|pi[eè]ces?|pc|stor(?:e?y|ies|eys)|floors?|[ée]tages?|people|persons?|months?|mois|years?|ans|weeks?|days?|jours?|spots?|places?|cars?|sq|sqft|ft|feet|pi2|pi²|x';
+
+// Words a year follows, so "built in 1985" isn't taken for a civic number
+const YEAR_CUES = 'in|since|built|renovated|of|en|depuis|construit|r[ée]nov[ée]e?';
+
+// Street types, which the civic number detector looks for after a street name
+const STREET_TYPE_WORDS = Object.keys(STREET_TYPES).join('|');
+
+// A detector finds one kind of personal information in text and masks it
+interface Detector {
+  kind: RedactionKind;
+  pattern: RegExp;
+  // Returns the replacement, or null to leave the match alone
+  mask: (match: string, ...groups: string[]) => string | null;
+}
+
+/**
+ * Masks the capitalized words of a name that follow a cue, leaving words that aren't names
+ */
+function maskName(match: string, cue: string, separator: string, first: string, space?: string, second?: string): string | null {
+  const isName = (word: string | undefined) => !!word && /^[A-ZÀ-Ý]/.test(word) && !NOT_NAMES.has(word.toLowerCase());
+  if (!isName(first)) return null;
+  const rest = second ? `${space}${second}` : '';
+  return isName(second) ? `${cue}${separator}[name]` : `${cue}${separator}[name]${rest}`;
+}
+
+/**
+ * Masks a civic number if the street after it has a capitalized name, so "Close to 3 parks and
+ * a quiet street" isn't taken for an address
+ * @param name The words before an English street type, e.g. "Spring Garden "
+ * @param frenchName The word after a French street type, e.g. "Saint-Denis"
+ */
+function maskCivicNumber(match: string, name?: string, frenchName?: string): string | null {
+  const words = (name || frenchName || '')
+    .split(/\s+|(?<=^[dl]')/i)
+    .filter((word) => word && !/^(?:de|du|des|la|le|[dl]')$/i.test(word));
+  return words.length > 0 && words.every((word) => /^[A-ZÀ-Ý0-9]/.test(word)) ? '[number]' : null;
+}
+
+// Detectors in the order they run. Emails and URLs go before phone numbers, since both can contain
+// digits, and names go last so a masked email or number isn't taken for a name.
+const DETECTORS: Detector[] = [
+  {
+    kind: 'email',
+    // Including the "name (at) gmail (dot) com" spelling used to get past spam filters
+    pattern: /[\w.+-]+(?:@|\s*[[(]at[\])]\s*)[\w-]+(?:(?:\.|\s*[[(]dot[\])]\s*)[\w-]+)*(?:\.|\s*[[(]dot[\])]\s*)[a-z]{2,}\b/gi,
+    mask: () => '[email]'
+  },
+  {
+    kind: 'url',
+    pattern: /\b(?:https?:\/\/|www\.)\S+/gi,
+    mask: () => '[url]'
+  },
+  {
+    kind: 'phone',
+    pattern: /(?<![\d$])(?:\+?1[\s.-]?)?(?:\(\d{3}\)|\d{3})[\s.-]?\d{3}[\s.-]?\d{4}(?!\d)/g,
+    mask: () => '[phone]'
+  },
+  {
+    kind: 'postal_code',
+    // Keep the forward sortation area, which covers thousands of households
+    pattern: /\b([ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z])\s?\d[ABCEGHJ-NPRSTV-Z]\d\b/gi,
+    mask: (match, fsa) => `${fsa.toUpperCase()} [postal code]`
+  },
+  {
+    kind: 'civic_number',
+    // A number before a street, e.g. "123 Main St", "4-123 Main St" or "123 rue Saint-Denis": a
+    // capitalized name then a street type, or a street type then a capitalized name, with only
+    // spaces between. Capitalization is checked by maskCivicNumber.
+    pattern: new RegExp(
+      `\\b(?!(?<=\\b(?:${YEAR_CUES})\\s+)(?:19|20)\\d\\d\\b)\\d{1,6}[a-z]?(?:-\\d{1,6}[a-z]?)?(?!\\s*(?:${QUANTITY_WORDS})\\b)` +
+      `(?=,?\\s+(?:((?:(?:st|ste|mt)\\.\\s*|[a-zà-ÿ0-9'-]+\\s+){1,3})(?:${STREET_TYPE_WORDS})` +
+      `|(?:${STREET_TYPE_WORDS})\\.?\\s+((?:(?:de|du|des|la|le)\\s+|[dl]')*[a-zà-ÿ][a-zà-ÿ'-]*))\\.?(?![a-zà-ÿ-]))`,
+      'gi'
+    ),
+    mask: maskCivicNumber
+  },
+  {
+    kind: 'unit',
+    // "Unit 4", "Apt. 2B", "suite 200"; not "appartement 4 1/2", which is a room count
+    pattern: new RegExp(
+      `\\b(unit|apt|apartment|suite|ste|app|appartement|logement)(\\.?\\s*#?\\s*)\\d{1,4}[a-z]?\\b(?!\\s*(?:1\\/2|½|et\\s+demi|\\/|(?:${QUANTITY_WORDS})\\b))`,
+      'gi'
+    ),
+    mask: (match, cue, separator) => `${cue}${separator}[unit]`
+  },
+  {
+    kind: 'unit',
+    pattern: /(?<![\w&])#\s?\d{2,4}[a-z]?\b/g,
+    mask: () => '#[unit]'
+  },
+  {
+    kind: 'name',
+    pattern: new RegExp(
+      `\\b(contactez|contact|call|text|txt|ask\\s+for|speak\\s+(?:to|with)|reach|my\\s+name\\s+is|appelez|demandez|je\\s+m'appelle)\\b` +
+      `(\\s*[:,-]?\\s*)(${NAME_WORD})(?:(\\s+)(${NAME_WORD}))?`,
+      'gi'
+    ),
+    mask: maskName
+  },
+  {
+    kind: 'name',
+    // Sign-offs at the end of a description, e.g. "Thanks, Sarah"
+    pattern: new RegExp(`\\b(thanks|thank\\s+you|cheers|regards|merci)([\\s,!.-]+)(${NAME_WORD})(?:(\\s+)(${NAME_WORD}))?(?=\\s*[.!]?\\s*$)`, 'gi'),
+    mask: maskName
+  }
+];
+
+/**
+ * Creates an empty count for each kind of redaction
+ */
+function createCounts(): RedactionCounts {
+  return { email: 0, url: 0, phone: 0, postal_code: 0, civic_number: 0, unit: 0, name: 0 };
+}
+
+/**
+ * Masks personal information in text: email addresses, URLs, phone numbers, full postal codes,
+ * civic and unit numbers, and names that follow a cue such as "contact" or "ask for"
+ * @param text The text to redact
+ * @param counts Incremented for each value masked
+ */
+export function redactText(text: string, counts: RedactionCounts = createCounts()): string {
+  let redacted = text;
+  for (const detector of DETECTORS) {
+    redacted = redacted.replace(detector.pattern, (match: string, ...groups: string[]) => {
+      const replacement = detector.mask(match, ...groups);
+      if (replacement === null) return match;
+      counts[detector.kind]++;
+      return replacement;
+    });
+  }
+  return redacted;
+}
+
+/**
+ * Rounds a coordinate to a number of decimal places
+ */
+export function coarsenCoordinate(value: number | null, precision: number): number | null {
+  return value === null ? null : Number(value.toFixed(precision));
+}
+
+/**
+ * Creates a redactor for a batch of listings being exported or published
+ * @param coordinatePrecision Decimal places coordinates are rounded to
+ */
+export function createRedactor(coordinatePrecision: number = DEFAULT_COORDINATE_PRECISION): Redactor {
+  const report: RedactionReport = {
+    createdAt: new Date().toISOString(),
+    coordinatePrecision,
+    listings: 0,
+    listingsRedacted: 0,
+    coordinatesCoarsened: 0,
+    redactions: { listingTitle: createCounts(), description: createCounts(), streetAddress: createCounts() },
+    residual: createCounts(),
+    withheldFields: WITHHELD_FIELDS
+  };
+
+  const total = () => Object.values(report.redactions).reduce(
+    (sum, counts) => sum + Object.values(counts).reduce((a, b) => a + b, 0),
+    report.coordinatesCoarsened
+  );
+
+  /**
+   * Redacts a field and scans the result again for anything left behind
+   */
+  const redactField = (field: RedactedField, text: string | null): string | null => {
+    if (text === null) return null;
+    const redacted = redactText(text, report.redactions[field]);
+    redactText(redacted, report.residual);
+    return redacted;
+  };
+
+  return {
+    coordinatePrecision,
+
+    redactListing(listing: ListingText): RedactedListing {
+      const before = total();
+      report.listings++;
+
+      // Only the street is kept from the address; the civic and unit numbers place the unit exactly
+      let street: string | null = null;
+      const address = parseAddress(listing.streetAddress, listing.postalCode);
+      if (address) {
+        street = address.street;
+        report.redactions.streetAddress.civic_number++;
+        if (address.unit) report.redactions.streetAddress.unit++;
+      } else if (listing.streetAddress) {
+        street = redactField('streetAddress', listing.streetAddress);
+      }
+
+      const latitude = coarsenCoordinate(listing.latitude, coordinatePrecision);
+      const longitude = coarsenCoordinate(listing.longitude, coordinatePrecision);
+      if (latitude !== listing.latitude || longitude !== listing.longitude) {
+        report.coordinatesCoarsened++;
+      }
+
+      const redacted = {
+        listingTitle: redactField('listingTitle', listing.listingTitle),
+        description: redactField('description', listing.description),
+        street,
+        latitude,
+        longitude
+      };
+      if (total() > before) report.listingsRedacted++;
+      return redacted;
+    },
+
+    getReport(): RedactionReport {
+      return report;
+    }
+  };
+}
+
+/**
+ * Renders a redaction report as Markdown, for the release notes
+ */
+export function renderRedactionReport(report: RedactionReport): string {
+  const kinds = Object.keys(report.residual) as RedactionKind[];
+  const fields = Object.keys(report.redactions) as RedactedField[];
+  const lines = [
+    '# Redaction Report',
+    '',
+    `Created ${report.createdAt}. ${report.listingsRedacted} of ${report.listings} listings had personal information masked or their location coarsened.`,
+    '',
+    `| Kind | ${fields.join(' | ')} | Left after redaction |`,
+    `| --- | ${fields.map(() => '---').join(' | ')} | --- |`,
+    ...kinds.map((kind) => `| ${kind} | ${fields.map((field) => report.redactions[field][kind]).join(' | ')} | ${report.residual[kind]} |`),
+    '',
+    `Coordinates are rounded to ${report.coordinatePrecision} decimal places, which moved ${report.coordinatesCoarsened} listings. ` +
+      `Street addresses are reduced to the street name. These fields are never released: ${report.withheldFields.join(', ')}.`
+  ];
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Counts the detections left after redaction; a release with any isn't safe to publish
+ */
+export function countResidual(report: RedactionReport): number {
+  return Object.values(report.residual).reduce((sum, count) => sum + count, 0);
+}
@@ -0,0 +1,115 @@
+import * as path from 'path';
+
+// Releases are staged in release/<version>/
+export const RELEASES_DIR = path.resolve(__dirname, '../release');
+
+// Where the redaction report is written in a release
+export const REDACTION_REPORT_FILE = 'redaction-report.json';
+
+// Type of a column, mapped to a CSV representation, a Parquet type and a Kaggle schema type
+export type ColumnType = 'string' | 'integer' | 'number' | 'boolean' | 'datetime';
+
+// Tables in a release
+export type TableName = 'listings' | 'price_history' | 'categories';
+
+// A column of an exported table
+export interface Column {
+  name: string;
+  type: ColumnType;
+  description: string;
+}
+
+// A published table and its columns, as described in the data dictionary and on Kaggle
+export interface TableDefinition {
+  name: TableName;
+  description: string;
+  columns: Column[];
+}
+
+// A file in a release, as recorded in its manifest
+export type ManifestFile = {
+  path: string;
+  table: string;
+  format: 'csv' | 'parquet';
+  rows: number;
+  bytes: number;
+  sha256: string;
+};
+
+// What a release contains, written to manifest.json; a type rather than an interface so it can be
+// serialized as JSON
+export type ReleaseManifest = {
+  version: string;
+  createdAt: string;
+  tables: { name: string; description: string; columns: Column[] }[];
+  files: ManifestFile[];
+  // The redaction report and its checksum; a release is only published if nothing was left behind
+  redaction: { path: string; sha256: string; residual: number };
+};
+
+/**
+ * Describes the published tables and their columns
+ * @param coordinatePrecision Decimal places coordinates are rounded to in the release
+ */
+export function getTableDefinitions(coordinatePrecision: number): TableDefinition[] {
+  return [
+    {
+      name: 'listings',
+      description: 'One row per rental listing, with cleaned prices, categories and extracted details',
+      columns: [
+        { name: 'id', type: 'string', description: 'Listing ID, namespaced by source, e.g. facebook:1234567890' },
+        { name: 'source', type: 'string', description: 'Site the listing was scraped from: facebook or kijiji' },
+        { name: 'title', type: 'string', description: 'Listing title' },
+        { name: 'description', type: 'string', description: 'Listing description' },
+        { name: 'language', type: 'string', description: 'Language of the title and description: en or fr' },
+        { name: 'city', type: 'string', description: 'City as given by the site' },
+        { name: 'province', type: 'string', description: 'Province as given by the site' },
+        { name: 'street', type: 'string', description: 'Street the listing is on, without its civic or unit number, e.g. MAIN ST' },
+        { name: 'fsa', type: 'string', description: 'Forward sortation area: the first three characters of the postal code' },
+        { name: 'latitude', type: 'number', description: `Latitude, rounded to ${coordinatePrecision} decimal places` },
+        { name: 'longitude', type: 'number', description: `Longitude, rounded to ${coordinatePrecision} decimal places` },
+        { name: 'category', type: 'string', description: 'Category: airbnb, studio apartment, 1bdr to 4bdr apartment, bedroom, bed, other or unknown' },
+        { name: 'category_reviewed', type: 'boolean', description: 'Whether the category was checked by hand rather than only assigned by a language model' },
+        { name: 'price', type: 'number', description: 'Price as listed, in CAD' },
+        { name: 'billing_period', type: 'string', description: 'What the price is charged per: night, week or month' },
+        { name: 'price_per_person', type: 'boolean', description: 'Whether the price is per person rather than for the whole unit' },
+        { name: 'monthly_rent', type: 'number', description: 'Price converted to a monthly rent for the whole unit, in CAD' },
+        { name: 'utility_cost', type: 'number', description: 'Estimated monthly cost of the utilities the rent does not include, in CAD' },
+        { name: 'all_in_rent', type: 'number', description: 'monthly_rent plus utility_cost, in CAD' },
+        { name: 'bedrooms', type: 'integer', description: 'Number of bedrooms; 0 for a studio' },
+        { name: 'bathrooms', type: 'number', description: 'Number of bathrooms; half baths count as 0.5' },
+        { name: 'square_feet', type: 'integer', description: 'Floor area in square feet' },
+        { name: 'pet_friendly', type: 'boolean', description: 'Whether the listing says pets are allowed' },
+        { name: 'amenities', type: 'string', description: 'Amenities listed by the site, separated by semicolons' },
+        { name: 'available_date', type: 'datetime', description: 'When the unit becomes available, as stated in the listing' },
+        { name: 'listed_date', type: 'datetime', description: 'When the listing was posted' },
+        { name: 'first_seen_at', type: 'datetime', description: 'When the listing was first scraped' },
+        { name: 'last_seen_at', type: 'datetime', description: 'When the listing was last scraped' },
+        { name: 'delisted_at', type: 'datetime', description: 'When the listing stopped appearing in the searches it was found in; empty while it is up' },
+        { name: 'unit_id', type: 'integer', description: 'The unit the listing advertises; reposts and cross-posts of a unit share it' }
+      ]
+    },
+    {
+      name: 'price_history',
+      description: 'The price of each listing every time it was scraped',
+      columns: [
+        { name: 'listing_id', type: 'string', description: 'The listing, see listings.id' },
+        { name: 'price', type: 'number', description: 'Price as listed, in CAD' },
+        { name: 'monthly_rent', type: 'number', description: 'Price converted to a monthly rent for the whole unit, in CAD' },
+        { name: 'recorded_at', type: 'datetime', description: 'When the price was scraped' }
+      ]
+    },
+    {
+      name: 'categories',
+      description: 'Every category a language model assigned to a listing, by model and prompt version',
+      columns: [
+        { name: 'listing_id', type: 'string', description: 'The listing, see listings.id' },
+        { name: 'category', type: 'string', description: 'Category the model assigned' },
+        { name: 'confidence', type: 'number', description: 'The model\'s confidence from 0 to 1, if it gave one' },
+        { name: 'model', type: 'string', description: 'Model that assigned the category' },
+        { name: 'prompt_version', type: 'string', description: 'Version of the categorization prompt' },
+        { name: 'categorized_at', type: 'datetime', description: 'When the listing was categorized' }
+      ]
+    }
+  ];
+}
@@ -0,0 +1,403 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { getOption } from './cli';
+import { CATEGORIZED, getStatsFilter } from './listing-filters';
+import { getPeriodKey, ReportPeriod } from './rent-report';
+import { fitLeastSquares, median } from './statistics';
+
+// Initialize Prisma client
+const prisma = new PrismaClient();
+
+// Categories, areas and amenities in fewer listings than this are pooled with the baseline
+const MIN_FEATURE_COUNT = 5;
+
+// Most common amenities used as features; rarer ones add noise rather than signal
+const MAX_AMENITIES = 15;
+
+// Amenities nearly every listing has say nothing about quality
+const MAX_AMENITY_SHARE = 0.95;
+
+// Periods with fewer observations than this are left out of a city's index
+const DEFAULT_MIN_OBSERVATIONS = 20;
+
+// Boundary layer whose areas are used as location features, falling back to FSAs
+const DEFAULT_AREA_LAYER = 'neighbourhood';
+
+// One unit listed in one period, with the attributes its rent is explained by
+interface Observation {
+  period: string;
+  logRent: number;
+  rent: number;
+  category: string;
+  bedrooms: number | null;
+  bathrooms: number | null;
+  squareFeet: number | null;
+  petFriendly: boolean;
+  furnished: boolean;
+  amenities: string[];
+  area: string | null;
+}
+
+// A price change of one unit between two periods
+interface RepeatPair {
+  from: string;
+  to: string;
+  logChange: number;
+}
+
+// A column of the hedonic regression, computed from an observation
+interface Feature {
+  name: string;
+  value: (observation: Observation) => number;
+}
+
+// A city's index value for one period
+interface IndexValue {
+  period: string;
+  value: number;
+  observations: number;
+}
+
+/**
+ * Adds 1 to a count in a map
+ */
+function increment(counts: Map<string, number>, key: string) {
+  counts.set(key, (counts.get(key) || 0) + 1);
+}
+
+/**
+ * Builds indicator features for the values of an attribute seen often enough, leaving out the most
+ * common value as the baseline
+ */
+function getIndicatorFeatures(name: string, observations: Observation[], getValue: (observation: Observation) => string | null): Feature[] {
+  const counts = new Map<string, number>();
+  for (const observation of observations) {
+    const value = getValue(observation);
+    if (value !== null) increment(counts, value);
+  }
+  const frequent = Array.from(counts).filter(([, count]) => count >= MIN_FEATURE_COUNT).sort((a, b) => b[1] - a[1]);
+  return frequent.slice(1).map(([value]) => ({
+    name: `${name}:${value}`,
+    value: (observation) => (getValue(observation) === value ? 1 : 0)
+  }));
+}
+
+/**
+ * Builds a numeric feature with an indicator for observations where it's unknown, or nothing if
+ * no observation has it
+ */
+function getNumericFeatures(name: string, observations: Observation[], getValue: (observation: Observation) => number | null): Feature[] {
+  if (!observations.some((observation) => getValue(observation) !== null)) {
+    return [];
+  }
+  return [
+    { name, value: (observation) => getValue(observation) ?? 0 },
+    { name: `${name}:unknown`, value: (observation) => (getValue(observation) === null ? 1 : 0) }
+  ];
+}
+
+/**
+ * Chooses the quality features of a city's regression: category, bedrooms, bathrooms, log floor
+ * area, pets, furnishing, common amenities and area
+ */
+function buildFeatures(observations: Observation[]): Feature[] {
+  const amenityCounts = new Map<string, number>();
+  for (const observation of observations) {
+    for (const amenity of observation.amenities) increment(amenityCounts, amenity);
+  }
+  const amenities = Array.from(amenityCounts)
+    .filter(([, count]) => count >= MIN_FEATURE_COUNT && count <= observations.length * MAX_AMENITY_SHARE)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_AMENITIES)
+    .map(([amenity]) => amenity);
+
+  return [
+    ...getIndicatorFeatures('category', observations, (observation) => observation.category),
+    ...getNumericFeatures('bedrooms', observations, (observation) => observation.bedrooms),
+    ...getNumericFeatures('bathrooms', observations, (observation) => observation.bathrooms),
+    ...getNumericFeatures('log_square_feet', observations, (observation) =>
+      observation.squareFeet ? Math.log(observation.squareFeet) : null
+    ),
+    { name: 'pet_friendly', value: (observation) => (observation.petFriendly ? 1 : 0) },
+    { name: 'furnished', value: (observation) => (observation.furnished ? 1 : 0) },
+    ...amenities.map((amenity) => ({
+      name: `amenity:${amenity}`,
+      value: (observation: Observation) => (observation.amenities.includes(amenity) ? 1 : 0)
+    })),
+    ...getIndicatorFeatures('area', observations, (observation) => observation.area)
+  ];
+}
+
+/**
+ * Fits a time-dummy hedonic regression of log rent on quality features and a dummy for each
+ * period; the index is the exponentiated period coefficient, so it moves only with rent changes
+ * that the listing mix doesn't explain
+ * @param observations The city's observations, in periods with enough of them
+ * @param periods The periods, in order; the first is the base
+ * @returns The index for each period, or null if there are too few observations to fit
+ */
+function fitHedonicIndex(observations: Observation[], periods: string[]): { values: IndexValue[]; rSquared: number } | null {
+  const features = buildFeatures(observations);
+  const periodColumns = new Map(periods.slice(1).map((period, index) => [period, 1 + index]));
+  const width = 1 + periodColumns.size + features.length;
+  if (observations.length <= width) {
+    return null;
+  }
+
+  const rows = observations.map((observation) => {
+    const row = new Array<number>(width).fill(0);
+    row[0] = 1;
+    const periodColumn = periodColumns.get(observation.period);
+    if (periodColumn !== undefined) row[periodColumn] = 1;
+    features.forEach((feature, index) => { row[1 + periodColumns.size + index] = feature.value(observation); });
+    return row;
+  });
+  const { coefficients, rSquared } = fitLeastSquares(rows, observations.map((observation) => observation.logRent));
+
+  const values = periods.map((period) => ({
+    period,
+    value: 100 * Math.exp(periodColumns.has(period) ? coefficients[periodColumns.get(period)!] : 0),
+    observations: observations.filter((observation) => observation.period === period).length
+  }));
+  return { values, rSquared };
+}
+
+/**
+ * Fits a repeat-listing index: the change in log rent between two periods for the same unit is
+ * regressed on the difference of the periods' dummies. Periods not linked to the base period by
+ * any chain of pairs are left out, since their level can't be compared.
+ * @param pairs The city's price changes
+ * @param minObservations Fewest pairs a period needs to be included
+ */
+function fitRepeatListingIndex(pairs: RepeatPair[], minObservations: number): IndexValue[] {
+  const counts = new Map<string, number>();
+  for (const pair of pairs) {
+    increment(counts, pair.from);
+    increment(counts, pair.to);
+  }
+  const candidates = new Set(Array.from(counts).filter(([, count]) => count >= minObservations).map(([period]) => period));
+  let usable = pairs.filter((pair) => candidates.has(pair.from) && candidates.has(pair.to));
+
+  const base = Array.from(candidates).sort()[0];
+  if (!base) {
+    return [];
+  }
+  const linked = new Set([base]);
+  for (let added = true; added;) {
+    added = false;
+    for (const pair of usable) {
+      if (linked.has(pair.from) !== linked.has(pair.to)) {
+        linked.add(pair.from);
+        linked.add(pair.to);
+        added = true;
+      }
+    }
+  }
+  usable = usable.filter((pair) => linked.has(pair.from));
+  const periods = Array.from(linked).sort();
+  if (periods.length < 2) {
+    return [];
+  }
+
+  const periodColumns = new Map(periods.slice(1).map((period, index) => [period, index]));
+  const rows = usable.map((pair) => {
+    const row = new Array<number>(periodColumns.size).fill(0);
+    if (periodColumns.has(pair.to)) row[periodColumns.get(pair.to)!] += 1;
+    if (periodColumns.has(pair.from)) row[periodColumns.get(pair.from)!] -= 1;
+    return row;
+  });
+  const { coefficients } = fitLeastSquares(rows, usable.map((pair) => pair.logChange));
+
+  return periods.map((period) => ({
+    period,
+    value: 100 * Math.exp(periodColumns.has(period) ? coefficients[periodColumns.get(period)!] : 0),
+    observations: usable.filter((pair) => pair.from === period || pair.to === period).length
+  }));
+}
+
+/**
+ * Loads one observation per unit and period from the listings, keyed by lowercase city
+ */
+async function loadObservations(periodType: ReportPeriod, areaLayer: string, where: Prisma.ListingWhereInput): Promise<Map<string, Observation[]>> {
+  const listings = await prisma.listing.findMany({
+    where: getStatsFilter({ AND: [where, CATEGORIZED] }),
+    select: {
+      id: true,
+      city: true,
+      ai_category_v1: true,
+      unitId: true,
+      price: true,
+      monthlyRent: true,
+      bedrooms: true,
+      bathrooms: true,
+      squareFeet: true,
+      petFriendly: true,
+      amenities: true,
+      listedDate: true,
+      firstSeenAt: true,
+      attributes: { select: { bedrooms: true, bathrooms: true, furnished: true } },
+      areas: {
+        where: { area: { layer: { in: [areaLayer, 'fsa'] } } },
+        select: { area: { select: { layer: true, code: true } } }
+      }
+    },
+    orderBy: [{ firstSeenAt: 'asc' }, { id: 'asc' }]
+  });
+
+  // The latest listing of each unit in each period, as in the rent report
+  const byUnit = new Map<string, { city: string; observation: Observation }>();
+  for (const listing of listings) {
+    const rent = (listing.monthlyRent || listing.price).toNumber();
+    if (rent <= 0) continue;
+
+    const listedAt = listing.firstSeenAt && listing.firstSeenAt < listing.listedDate ? listing.firstSeenAt : listing.listedDate;
+    const period = getPeriodKey(listedAt, periodType);
+    const area = listing.areas.find(({ area }) => area.layer === areaLayer) || listing.areas.find(({ area }) => area.layer === 'fsa');
+    const squareFeet = listing.squareFeet && listing.squareFeet >= 100 && listing.squareFeet <= 10000 ? listing.squareFeet : null;
+    const bedrooms = listing.bedrooms ?? listing.attributes?.bedrooms ?? null;
+    const city = (listing.city || 'unknown').trim().toLowerCase();
+
+    const unitKey = listing.unitId !== null ? `unit:${listing.unitId}` : `listing:${listing.id}`;
+    byUnit.set(`${city}|${period}|${unitKey}`, {
+      city,
+      observation: {
+        period,
+        rent,
+        logRent: Math.log(rent),
+        category: listing.ai_category_v1!,
+        bedrooms: bedrooms === null ? null : Math.min(bedrooms, 5),
+        bathrooms: listing.bathrooms ?? listing.attributes?.bathrooms ?? null,
+        squareFeet,
+        petFriendly: !!listing.petFriendly,
+        furnished: listing.attributes?.furnished === true,
+        amenities: listing.amenities.map((amenity) => amenity.trim().toLowerCase()),
+        area: area ? `${area.area.layer}:${area.area.code}` : null
+      }
+    });
+  }
+
+  const byCity = new Map<string, Observation[]>();
+  for (const { city, observation } of byUnit.values()) {
+    const observations = byCity.get(city);
+    if (observations) observations.push(observation);
+    else byCity.set(city, [observation]);
+  }
+  return byCity;
+}
+
+/**
+ * Loads each unit's price changes between consecutive periods it was seen in, from price
+ * history, keyed by lowercase city
+ */
+async function loadRepeatPairs(periodType: ReportPeriod, where: Prisma.ListingWhereInput): Promise<Map<string, RepeatPair[]>> {
+  const history = await prisma.priceHistory.findMany({
+    where: { monthlyRent: { gt: 0 }, listing: getStatsFilter(where) },
+    select: {
+      listingId: true,
+      monthlyRent: true,
+      recordedAt: true,
+      listing: { select: { city: true, unitId: true } }
+    },
+    orderBy: { recordedAt: 'asc' }
+  });
+
+  // The last rent each unit was seen at in each period
+  const units = new Map<string, { city: string; rents: Map<string, number> }>();
+  for (const row of history) {
+    const unitKey = row.listing.unitId !== null ? `unit:${row.listing.unitId}` : `listing:${row.listingId}`;
+    const unit = units.get(unitKey) || { city: (row.listing.city || 'unknown').trim().toLowerCase(), rents: new Map<string, number>() };
+    unit.rents.set(getPeriodKey(row.recordedAt, periodType), row.monthlyRent!.toNumber());
+    units.set(unitKey, unit);
+  }
+
+  const byCity = new Map<string, RepeatPair[]>();
+  for (const { city, rents } of units.values()) {
+    const periods = Array.from(rents.keys()).sort();
+    for (let i = 1; i < periods.length; i++) {
+      const pairs = byCity.get(city) || [];
+      pairs.push({ from: periods[i - 1], to: periods[i], logChange: Math.log(rents.get(periods[i])! / rents.get(periods[i - 1])!) });
+      byCity.set(city, pairs);
+    }
+  }
+  return byCity;
+}
+
+// Main function
+async function computeRentIndex() {
+  const periodType = (getOption('--period') || 'month') as ReportPeriod;
+  if (periodType !== 'month' && periodType !== 'week') {
+    throw new Error(`Unknown period "${periodType}". Use month or week`);
+  }
+  const minObservations = parseInt(getOption('--min-observations') || String(DEFAULT_MIN_OBSERVATIONS));
+  if (isNaN(minObservations) || minObservations < 1) {
+    throw new Error('--min-observations must be a positive number');
+  }
+  const areaLayer = getOption('--area-layer') || DEFAULT_AREA_LAYER;
+  const cityOption = getOption('--city');
+  const where: Prisma.ListingWhereInput = cityOption ? { city: { equals: cityOption, mode: 'insensitive' } } : {};
+
+  const observationsByCity = await loadObservations(periodType, areaLayer, where);
+  const pairsByCity = await loadRepeatPairs(periodType, where);
+
+  const rows: Prisma.RentIndexValueCreateManyInput[] = [];
+  const cities = Array.from(new Set([...observationsByCity.keys(), ...pairsByCity.keys()])).sort();
+  for (const city of cities) {
+    const observations = observationsByCity.get(city) || [];
+    const periodCounts = new Map<string, number>();
+    for (const observation of observations) increment(periodCounts, observation.period);
+    const periods = Array.from(periodCounts).filter(([, count]) => count >= minObservations).map(([period]) => period).sort();
+    const included = observations.filter((observation) => periodCounts.get(observation.period)! >= minObservations);
+
+    const hedonic = periods.length >= 2 ? fitHedonicIndex(included, periods) : null;
+    const repeat = fitRepeatListingIndex(pairsByCity.get(city) || [], minObservations);
+    if (!hedonic && repeat.length === 0) {
+      console.log(`\n${city}: not enough observations for an index`);
+      continue;
+    }
+
+    for (const [method, values] of [['hedonic', hedonic?.values || []], ['repeat_listing', repeat]] as const) {
+      for (const { period, value, observations: count } of values) {
+        rows.push({ city, method, periodType, period, value, observations: count });
+      }
+    }
+
+    // The raw median, rebased the same way, shows how much of its movement is the listing mix
+    const baseMedian = periods.length > 0
+      ? median(included.filter((observation) => observation.period === periods[0]).map((observation) => observation.rent).sort((a, b) => a - b))
+      : 0;
+    console.log(`\n${city}${hedonic ? ` (hedonic R² ${hedonic.rSquared.toFixed(2)})` : ''}`);
+    console.log(`${'period'.padEnd(12)}${'hedonic'.padStart(9)}${'repeat'.padStart(9)}${'median'.padStart(9)}${'listings'.padStart(10)}`);
+    const allPeriods = Array.from(new Set([...periods, ...repeat.map((value) => value.period)])).sort();
+    for (const period of allPeriods) {
+      const hedonicValue = hedonic?.values.find((value) => value.period === period);
+      const repeatValue = repeat.find((value) => value.period === period);
+      const rents = included.filter((observation) => observation.period === period).map((observation) => observation.rent).sort((a, b) => a - b);
+      console.log([
+        period.padEnd(12),
+        (hedonicValue ? hedonicValue.value.toFixed(1) : '-').padStart(9),
+        (repeatValue ? repeatValue.value.toFixed(1) : '-').padStart(9),
+        (rents.length > 0 && baseMedian ? (100 * median(rents) / baseMedian).toFixed(1) : '-').padStart(9),
+        String(rents.length).padStart(10)
+      ].join(''));
+    }
+  }
+
+  // Replace the index for the cities computed, so periods that no longer qualify don't linger
+  await prisma.$transaction([
+    prisma.rentIndexValue.deleteMany({ where: { periodType, ...(cityOption ? { city: cityOption.trim().toLowerCase() } : {}) } }),
+    prisma.rentIndexValue.createMany({ data: rows })
+  ]);
+
+  console.log(`\n===== RENT INDEX COMPLETE =====`);
+  console.log(`Cities: ${new Set(rows.map((row) => row.city)).size}`);
+  console.log(`Index values saved: ${rows.length}`);
+}
+
+if (require.main === module) {
+  computeRentIndex()
+    .then(() => prisma.$disconnect())
+    .catch((error) => {
+      console.error('Rent index failed:', error);
+      prisma.$disconnect();
+      process.exit(1);
+    });
+}
@@ -0,0 +1,349 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getOption } from './cli';
+import { CATEGORIZED, getStatsFilter } from './listing-filters';
+import { mean, median, quantile } from './statistics';
+
+// Initialize Prisma client
+const prisma = new PrismaClient();
+
+// Where reports are written unless --output is passed
+const DEFAULT_OUTPUT_DIR = path.resolve(__dirname, '../reports/rent');
+
+// Cells with fewer listings than this are flagged in JSON and hidden in Markdown and HTML
+const DEFAULT_MIN_SAMPLE = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Length of the periods listings are grouped into
+export type ReportPeriod = 'month' | 'week';
+
+// Rent statistics for one city, category and period; a type rather than an interface so it can be
+// serialized as JSON
+export type RentReportCell = {
+  city: string;
+  category: string;
+  // e.g. 2025-03 for a month, or the Monday a week starts on, e.g. 2025-03-10
+  period: string;
+  // Number of units listed
+  count: number;
+  median: number;
+  mean: number;
+  firstQuartile: number;
+  thirdQuartile: number;
+  // Median of monthly rent plus estimated utilities, over the listings it's been computed for
+  allInCount: number;
+  allInMedian: number | null;
+  // Whether the cell has fewer listings than the report's minimum sample size
+  lowSample: boolean;
+  // Change in median since the previous period and the same period a year earlier, as a fraction;
+  // null if either cell is missing or has too few listings
+  changeFromPreviousPeriod: number | null;
+  changeFromYearEarlier: number | null;
+};
+
+export type RentReport = {
+  generatedAt: string;
+  period: ReportPeriod;
+  minSample: number;
+  cells: RentReportCell[];
+};
+
+// Options for building a report
+export interface RentReportOptions {
+  period: ReportPeriod;
+  minSample: number;
+  // Only listings in this city, matched case-insensitively
+  city?: string;
+}
+
+/**
+ * Formats the period a date falls in: its month, or the Monday its week starts on
+ */
+export function getPeriodKey(date: Date, period: ReportPeriod): string {
+  if (period === 'month') {
+    return date.toISOString().substring(0, 7);
+  }
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  const monday = new Date(day.getTime() - ((day.getUTCDay() + 6) % 7) * DAY_MS);
+  return monday.toISOString().substring(0, 10);
+}
+
+/**
+ * Gets the key of the period a number of periods before another, e.g. 12 months or 52 weeks back
+ */
+function shiftPeriodKey(key: string, period: ReportPeriod, periods: number): string {
+  if (period === 'month') {
+    const [year, month] = key.split('-').map((part) => parseInt(part));
+    return new Date(Date.UTC(year, month - 1 - periods, 1)).toISOString().substring(0, 7);
+  }
+  return new Date(new Date(key).getTime() - periods * 7 * DAY_MS).toISOString().substring(0, 10);
+}
+
+/**
+ * Computes rent statistics for every combination of city, category and period. Each unit found by
+ * `npm run dedupe` counts once per period, at the rent of its latest listing in that period, and
+ * listings count in the period they were first listed. Uncategorized listings are left out.
+ * @param client Prisma client to read listings with
+ * @param options Period length, minimum sample size and city
+ */
+export async function buildRentReport(client: PrismaClient, options: RentReportOptions): Promise<RentReport> {
+  const where: Prisma.ListingWhereInput = {};
+  if (options.city) where.city = { equals: options.city, mode: 'insensitive' };
+
+  const listings = await client.listing.findMany({
+    where: getStatsFilter({ AND: [where, CATEGORIZED] }),
+    select: {
+      id: true,
+      city: true,
+      ai_category_v1: true,
+      unitId: true,
+      price: true,
+      monthlyRent: true,
+      allInRent: true,
+      listedDate: true,
+      firstSeenAt: true
+    },
+    orderBy: [{ firstSeenAt: 'asc' }, { id: 'asc' }]
+  });
+
+  // The latest listing of each unit in each city, category and period
+  const observations = new Map<string, { rent: number; allInRent: number | null }>();
+  const cityNames = new Map<string, string>();
+  for (const listing of listings) {
+    // Listings imported without a posting date default it to the import time, after they were first seen
+    const listedAt = listing.firstSeenAt && listing.firstSeenAt < listing.listedDate ? listing.firstSeenAt : listing.listedDate;
+    const city = (listing.city || 'unknown').trim();
+    const cityKey = city.toLowerCase();
+    if (!cityNames.has(cityKey)) cityNames.set(cityKey, city);
+
+    const unitKey = listing.unitId !== null ? `unit:${listing.unitId}` : `listing:${listing.id}`;
+    observations.set(`${cityKey}|${listing.ai_category_v1}|${getPeriodKey(listedAt, options.period)}|${unitKey}`, {
+      rent: (listing.monthlyRent || listing.price).toNumber(),
+      allInRent: listing.allInRent ? listing.allInRent.toNumber() : null
+    });
+  }
+
+  const groups = new Map<string, { rents: number[]; allInRents: number[] }>();
+  for (const [key, observation] of observations) {
+    const cellKey = key.substring(0, key.lastIndexOf('|'));
+    const group = groups.get(cellKey) || { rents: [], allInRents: [] };
+    group.rents.push(observation.rent);
+    if (observation.allInRent !== null) group.allInRents.push(observation.allInRent);
+    groups.set(cellKey, group);
+  }
+
+  const cells = new Map<string, RentReportCell>();
+  for (const [key, group] of groups) {
+    const [cityKey, category, period] = key.split('|');
+    const rents = group.rents.sort((a, b) => a - b);
+    const allInRents = group.allInRents.sort((a, b) => a - b);
+    cells.set(key, {
+      city: cityNames.get(cityKey)!,
+      category,
+      period,
+      count: rents.length,
+      median: median(rents),
+      mean: mean(rents),
+      firstQuartile: quantile(rents, 0.25),
+      thirdQuartile: quantile(rents, 0.75),
+      allInCount: allInRents.length,
+      allInMedian: allInRents.length > 0 ? median(allInRents) : null,
+      lowSample: rents.length < options.minSample,
+      changeFromPreviousPeriod: null,
+      changeFromYearEarlier: null
+    });
+  }
+
+  // Changes are only meaningful between cells with enough listings
+  const getChange = (cell: RentReportCell, earlierKey: string) => {
+    const earlier = cells.get(earlierKey);
+    return earlier && !earlier.lowSample && !cell.lowSample ? cell.median / earlier.median - 1 : null;
+  };
+  const periodsPerYear = options.period === 'month' ? 12 : 52;
+  for (const [key, cell] of cells) {
+    const prefix = key.substring(0, key.lastIndexOf('|'));
+    cell.changeFromPreviousPeriod = getChange(cell, `${prefix}|${shiftPeriodKey(cell.period, options.period, 1)}`);
+    cell.changeFromYearEarlier = getChange(cell, `${prefix}|${shiftPeriodKey(cell.period, options.period, periodsPerYear)}`);
+  }
+
+  const sortedCells = Array.from(cells.values()).sort((a, b) =>
+    a.city.localeCompare(b.city) || a.category.localeCompare(b.category) || a.period.localeCompare(b.period)
+  );
+  return { generatedAt: new Date().toISOString(), period: options.period, minSample: options.minSample, cells: sortedCells };
+}
+
+/**
+ * Formats a rent in dollars, e.g. $1,450
+ */
+function formatRent(value: number | null): string {
+  return value === null ? '-' : `$${Math.round(value).toLocaleString('en-CA')}`;
+}
+
+/**
+ * Formats a change as a signed percentage, e.g. +2.4%
+ */
+function formatChange(value: number | null): string {
+  return value === null ? '-' : `${value >= 0 ? '+' : ''}${(value * 100).toFixed(1)}%`;
+}
+
+// Columns of the Markdown and HTML tables
+const TABLE_HEADINGS = ['Category', 'Period', 'Listings', 'Median', 'Mean', 'Q1', 'Q3', 'All-in median', 'Change', 'Year over year'];
+
+/**
+ * Gets a cell's row for the Markdown and HTML tables; statistics of low-sample cells are hidden
+ */
+function getTableRow(cell: RentReportCell, minSample: number): string[] {
+  if (cell.lowSample) {
+    return [cell.category, cell.period, String(cell.count), `fewer than ${minSample} listings`, '', '', '', '', '', ''];
+  }
+  return [
+    cell.category,
+    cell.period,
+    String(cell.count),
+    formatRent(cell.median),
+    formatRent(cell.mean),
+    formatRent(cell.firstQuartile),
+    formatRent(cell.thirdQuartile),
+    formatRent(cell.allInMedian),
+    formatChange(cell.changeFromPreviousPeriod),
+    formatChange(cell.changeFromYearEarlier)
+  ];
+}
+
+/**
+ * Groups a report's cells by city, keeping their order
+ */
+function groupByCity(cells: RentReportCell[]): Map<string, RentReportCell[]> {
+  const cities = new Map<string, RentReportCell[]>();
+  for (const cell of cells) {
+    const cityCells = cities.get(cell.city);
+    if (cityCells) cityCells.push(cell);
+    else cities.set(cell.city, [cell]);
+  }
+  return cities;
+}
+
+/**
+ * Describes how a report was computed, for the top of the Markdown and HTML versions
+ */
+function describeReport(report: RentReport): string {
+  return `Monthly asking rent for the whole unit, grouped by the ${report.period} it was listed in and counting each unit once per ${report.period}. ` +
+    `All-in rent adds the estimated cost of utilities the rent doesn't include. ` +
+    `Changes compare medians with the previous ${report.period} and the same ${report.period} a year earlier. ` +
+    `Cells with fewer than ${report.minSample} listings are hidden.`;
+}
+
+/**
+ * Renders a report as Markdown, with a table per city
+ */
+export function renderMarkdown(report: RentReport): string {
+  const lines = [`# Rent Report`, '', `Generated ${report.generatedAt}. ${describeReport(report)}`];
+  for (const [city, cells] of groupByCity(report.cells)) {
+    lines.push('', `## ${city}`, '', `| ${TABLE_HEADINGS.join(' | ')} |`, `|${TABLE_HEADINGS.map(() => ' --- ').join('|')}|`);
+    for (const cell of cells) {
+      lines.push(`| ${getTableRow(cell, report.minSample).join(' | ')} |`);
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Escapes text for use in HTML
+ */
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Renders a report as a standalone HTML page, with a table per city
+ */
+export function renderHtml(report: RentReport): string {
+  const sections = Array.from(groupByCity(report.cells)).map(([city, cells]) => {
+    const rows = cells.map((cell) => {
+      const values = getTableRow(cell, report.minSample);
+      const className = cell.lowSample ? ' class="low-sample"' : '';
+      return `<tr${className}>${values.map((value) => `<td>${escapeHtml(value)}</td>`).join('')}</tr>`;
+    });
+    return `<h2>${escapeHtml(city)}</h2>
+<table>
+<thead><tr>${TABLE_HEADINGS.map((heading) => `<th>${heading}</th>`).join('')}</tr></thead>
+<tbody>
+${rows.join('\n')}
+</tbody>
+</table>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Rent Report</title>
+<style>
+body { font-family: sans-serif; margin: 2em; }
+table { border-collapse: collapse; margin-bottom: 2em; }
+th, td { border: 1px solid #ccc; padding: 0.3em 0.6em; text-align: right; }
+th:first-child, td:first-child, td:nth-child(2) { text-align: left; }
+tr.low-sample { color: #999; }
+</style>
+</head>
+<body>
+<h1>Rent Report</h1>
+<p>Generated ${escapeHtml(report.generatedAt)}. ${escapeHtml(describeReport(report))}</p>
+${sections.join('\n')}
+</body>
+</html>
+`;
+}
+
+// Main function
+async function generateRentReport() {
+  const period = (getOption('--period') || 'month') as ReportPeriod;
+  if (period !== 'month' && period !== 'week') {
+    throw new Error(`Unknown period "${period}". Use month or week`);
+  }
+  const minSample = parseInt(getOption('--min-sample') || String(DEFAULT_MIN_SAMPLE));
+  if (isNaN(minSample) || minSample < 1) {
+    throw new Error('--min-sample must be a positive number');
+  }
+  const formats = (getOption('--format') || 'json,md,html').split(',').map((format) => format.trim());
+  const unknownFormats = formats.filter((format) => !['json', 'md', 'html'].includes(format));
+  if (unknownFormats.length > 0) {
+    throw new Error(`Unknown format "${unknownFormats.join(', ')}". Use json, md or html`);
+  }
+  const outputDir = path.resolve(getOption('--output') || DEFAULT_OUTPUT_DIR);
+
+  const report = await buildRentReport(prisma, { period, minSample, city: getOption('--city') });
+
+  await fs.promises.mkdir(outputDir, { recursive: true });
+  const baseName = `rent-report-${period}-${report.generatedAt.substring(0, 10)}`;
+  const renderers: Record<string, (report: RentReport) => string> = {
+    json: (data) => JSON.stringify(data, null, 2),
+    md: renderMarkdown,
+    html: renderHtml
+  };
+  const written: string[] = [];
+  for (const format of formats) {
+    const filePath = path.join(outputDir, `${baseName}.${format}`);
+    await fs.promises.writeFile(filePath, renderers[format](report));
+    written.push(filePath);
+  }
+
+  console.log(`\n===== RENT REPORT COMPLETE =====`);
+  console.log(`Cells: ${report.cells.length}`);
+  console.log(`Cells with fewer than ${minSample} listings: ${report.cells.filter((cell) => cell.lowSample).length}`);
+  for (const filePath of written) {
+    console.log(`Written: ${filePath}`);
+  }
+}
+
+if (require.main === module) {
+  generateRentReport()
+    .then(() => prisma.$disconnect())
+    .catch((error) => {
+      console.error('Rent report failed:', error);
+      prisma.$disconnect();
+      process.exit(1);
+    });
+}
@@ -0,0 +1,182 @@
+import { PrismaClient } from '@prisma/client';
+import * as readline from 'readline';
+import { VALID_CATEGORIES } from './categorize-listings';
+import { getOption } from './cli';
+import { INCLUDED_IN_STATS } from './listing-filters';
+
+// Initialize Prisma client
+const prisma = new PrismaClient();
+
+// Categorizations the model was less sure of than this are queued for review
+const LOW_CONFIDENCE = 0.5;
+
+// Characters of the description shown while reviewing
+const DESCRIPTION_PREVIEW_LENGTH = 600;
+
+// Interface for the listing data that decides whether a listing needs review
+interface ListingForReview {
+  id: string;
+  ai_category_v1: string | null;
+  bedrooms: number | null;
+  categorizations: { confidence: number | null }[];
+}
+
+/**
+ * Whether a category contradicts the bedroom count extracted from the listing, e.g.
+ * `2bdr apartment` with one bedroom or a studio with two
+ */
+function contradictsBedrooms(category: string, bedrooms: number | null): boolean {
+  if (bedrooms === null) {
+    return false;
+  }
+  if (category === 'studio apartment') {
+    return bedrooms > 0;
+  }
+  const match = category.match(/^(\d)bdr apartment$/);
+  if (!match) {
+    return false;
+  }
+  const expected = parseInt(match[1]);
+  // The 4bdr category covers four bedrooms or more
+  return expected === 4 ? bedrooms < 4 : bedrooms !== expected;
+}
+
+/**
+ * Works out why a listing's category needs a reviewer, if it does
+ * @returns The reason, or null if the category looks fine
+ */
+function getReviewReason(listing: ListingForReview): string | null {
+  const category = listing.ai_category_v1;
+  if (!category) {
+    return null;
+  }
+  if (category === 'unknown') return 'unknown_category';
+  if (category === 'other') return 'other_category';
+  if (contradictsBedrooms(category, listing.bedrooms)) return 'bedroom_mismatch';
+
+  const confidence = listing.categorizations[0]?.confidence;
+  if (confidence !== null && confidence !== undefined && confidence < LOW_CONFIDENCE) return 'low_confidence';
+
+  return null;
+}
+
+/**
+ * Queues every categorized listing whose category needs review, and drops pending items whose
+ * listing has since been recategorized into something plausible
+ * @returns Number of items queued and dropped
+ */
+async function refreshQueue(): Promise<{ queued: number; dropped: number }> {
+  const listings: ListingForReview[] = await prisma.listing.findMany({
+    where: { AND: [INCLUDED_IN_STATS, { categoryLocked: false, ai_category_v1: { not: null } }] },
+    select: {
+      id: true,
+      ai_category_v1: true,
+      bedrooms: true,
+      categorizations: {
+        orderBy: { createdAt: 'desc' },
+        take: 1,
+        select: { confidence: true }
+      }
+    }
+  });
+
+  const reasons = new Map<string, string>();
+  for (const listing of listings) {
+    const reason = getReviewReason(listing);
+    if (reason) reasons.set(listing.id, reason);
+  }
+
+  const pending = await prisma.reviewItem.findMany({ where: { status: 'pending' }, select: { listingId: true } });
+  const pendingIds = new Set(pending.map((item) => item.listingId));
+  const staleIds = pending.map((item) => item.listingId).filter((id) => !reasons.has(id));
+
+  const [dropped, queued] = await prisma.$transaction([
+    prisma.reviewItem.deleteMany({ where: { status: 'pending', listingId: { in: staleIds } } }),
+    // Listings reviewed before keep their resolved item, and are locked anyway
+    prisma.reviewItem.createMany({
+      data: Array.from(reasons)
+        .filter(([listingId]) => !pendingIds.has(listingId))
+        .map(([listingId, reason]) => ({ listingId, reason })),
+      skipDuplicates: true
+    })
+  ]);
+  return { queued: queued.count, dropped: dropped.count };
+}
+
+// Main function
+async function reviewCategories() {
+  const reviewer = getOption('--reviewer') || process.env.USER || null;
+  const reason = getOption('--reason');
+
+  const { queued, dropped } = await refreshQueue();
+  console.log(`Queued ${queued} listings for review; dropped ${dropped} that no longer need it`);
+
+  const items = await prisma.reviewItem.findMany({
+    where: { status: 'pending', ...(reason ? { reason } : {}) },
+    include: { listing: true },
+    orderBy: { createdAt: 'asc' }
+  });
+  if (items.length === 0) {
+    console.log('Nothing to review');
+    return;
+  }
+
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  const ask = (question: string) => new Promise<string>((resolve) => rl.question(question, resolve));
+
+  const menu = VALID_CATEGORIES.map((category, index) => `${index + 1}) ${category}`).join('  ');
+  let reviewed = 0;
+
+  try {
+    for (const [position, item] of items.entries()) {
+      const { listing } = item;
+      const description = listing.description || '';
+      console.log(`\n===== ${position + 1}/${items.length}: ${listing.id} (${item.reason}) =====`);
+      console.log(listing.listingTitle || 'Untitled');
+      console.log(`$${listing.price}${listing.billingPeriod ? ` per ${listing.billingPeriod}` : ''} | ${listing.city || 'unknown city'} | bedrooms: ${listing.bedrooms ?? '?'} | bathrooms: ${listing.bathrooms ?? '?'}`);
+      console.log(description.substring(0, DESCRIPTION_PREVIEW_LENGTH) + (description.length > DESCRIPTION_PREVIEW_LENGTH ? '...' : ''));
+      if (listing.imageUrl) console.log(`Image: ${listing.imageUrl}`);
+      if (listing.listingUrl) console.log(`Listing: ${listing.listingUrl}`);
+      console.log(`Current category: ${listing.ai_category_v1}`);
+      console.log(menu);
+
+      let category: string | undefined;
+      while (!category) {
+        const answer = (await ask('Category number, Enter to keep the current one, s to skip, q to quit: ')).trim().toLowerCase();
+        if (answer === 'q') return;
+        if (answer === 's') break;
+        category = answer === '' ? listing.ai_category_v1 || undefined : VALID_CATEGORIES[parseInt(answer) - 1];
+      }
+      if (!category) continue;
+
+      // Confirming the model's category locks it too, so the listing isn't queued again
+      await prisma.$transaction([
+        prisma.categoryOverride.create({
+          data: { listingId: listing.id, previousCategory: listing.ai_category_v1, category, reviewer }
+        }),
+        prisma.listing.update({
+          where: { id: listing.id },
+          data: { ai_category_v1: category, categoryLocked: true }
+        }),
+        prisma.reviewItem.update({
+          where: { id: item.id },
+          data: { status: 'resolved', resolvedAt: new Date() }
+        })
+      ]);
+      reviewed++;
+    }
+  } finally {
+    rl.close();
+    console.log(`\nReviewed ${reviewed} listings; ${items.length - reviewed} still pending`);
+  }
+}
+
+if (require.main === module) {
+  reviewCategories()
+    .then(() => prisma.$disconnect())
+    .catch((error) => {
+      console.error('Review failed:', error);
+      prisma.$disconnect();
+      process.exit(1);
+    });
+}
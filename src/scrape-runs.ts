@@ -0,0 +1,122 @@
+import { PrismaClient, ScrapeRun } from '@prisma/client';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getAdapterForFile } from './sources';
+
+// Context recovered from where a scraper output file sits under data/
+export interface ScrapeContext {
+  filePath: string;
+  // Name of the source adapter for the file
+  source: string;
+  search: string;
+  city: string | null;
+  searchCategory: string | null;
+  scrapedAt: Date;
+}
+
+/**
+ * Recursively finds all JSON files in a directory and its subdirectories
+ * @param directoryPath The directory to search in
+ * @returns Array of absolute paths to JSON files
+ */
+export async function findJsonFiles(directoryPath: string): Promise<string[]> {
+  const jsonFiles: string[] = [];
+
+  try {
+    const entries = await fs.promises.readdir(directoryPath, { withFileTypes: true });
+
+    for (const entry of entries) {
+      const fullPath = path.join(directoryPath, entry.name);
+
+      if (entry.isDirectory()) {
+        const subDirFiles = await findJsonFiles(fullPath);
+        jsonFiles.push(...subDirFiles);
+      } else if (entry.isFile() && entry.name.endsWith('.json')) {
+        jsonFiles.push(fullPath);
+      }
+    }
+  } catch (error) {
+    console.error(`Error searching directory ${directoryPath}:`, error);
+  }
+
+  return jsonFiles;
+}
+
+/**
+ * Determines when a scraper output file was produced. The scraper names its files like
+ * `dataset_Facebook-marketplace-scraper_2025-03-16_22-23-18-811.json` (UTC); files that
+ * don't follow that pattern fall back to their modification time.
+ * @param filePath Path to the JSON file
+ * @returns The scrape timestamp
+ */
+export async function getScrapeTimestamp(filePath: string): Promise<Date> {
+  const match = path.basename(filePath).match(/(\d{4})-(\d{2})-(\d{2})_(\d{2})-(\d{2})-(\d{2})(?:-(\d{1,3}))?/);
+  if (match) {
+    const [, year, month, day, hour, minute, second, millis] = match;
+    return new Date(Date.UTC(
+      parseInt(year), parseInt(month) - 1, parseInt(day),
+      parseInt(hour), parseInt(minute), parseInt(second), parseInt(millis || '0')
+    ));
+  }
+
+  const fileStats = await fs.promises.stat(filePath);
+  return fileStats.mtime;
+}
+
+/**
+ * Splits a search directory name like `halifax:1-bedroom-apartments` into the city and
+ * the Marketplace search category. Directories without a category are treated as a city.
+ * @param search The directory name
+ * @returns The city and search category, when present
+ */
+export function parseSearchName(search: string): { city: string | null; searchCategory: string | null } {
+  if (!search || search === '.') {
+    return { city: null, searchCategory: null };
+  }
+
+  const separatorIndex = search.indexOf(':');
+  if (separatorIndex === -1) {
+    return { city: search, searchCategory: null };
+  }
+
+  return {
+    city: search.substring(0, separatorIndex) || null,
+    searchCategory: search.substring(separatorIndex + 1) || null
+  };
+}
+
+/**
+ * Builds the scrape context for a file from its path and name
+ * @param filePath Absolute path to the JSON file
+ * @param dataDir The data directory the file was found in
+ * @returns The scrape context
+ */
+export async function getScrapeContext(filePath: string, dataDir: string): Promise<ScrapeContext> {
+  const relativePath = path.relative(dataDir, filePath);
+  const search = path.dirname(relativePath).split(path.sep).pop() || '';
+
+  const filePathWithSlashes = relativePath.split(path.sep).join('/');
+
+  return {
+    filePath: filePathWithSlashes,
+    source: getAdapterForFile(filePathWithSlashes).name,
+    search: search === '.' ? '' : search,
+    ...parseSearchName(search),
+    scrapedAt: await getScrapeTimestamp(filePath)
+  };
+}
+
+/**
+ * Creates the ScrapeRun for a file, or returns the existing one if it was imported before
+ * @param prisma The Prisma client
+ * @param context The scrape context of the file
+ * @returns The scrape run
+ */
+export async function recordScrapeRun(prisma: PrismaClient, context: ScrapeContext): Promise<ScrapeRun> {
+  const { filePath, ...details } = context;
+  return prisma.scrapeRun.upsert({
+    where: { filePath },
+    create: { filePath, ...details },
+    update: details
+  });
+}
@@ -0,0 +1,351 @@
+import { parseAvailability } from '../availability';
+import { detectLanguage, parseQuebecRoomCount } from '../language';
+import { ListingData, SchemaField, SourceAdapter } from './types';
+
+/*
+ * Types for the output of the Facebook Marketplace scraper. Only the parts of the payload we
+ * read are described; every field is optional because the scraper omits whatever Facebook
+ * didn't return.
+ */
+
+export interface MarketplaceImage {
+  uri?: string;
+}
+
+export interface MarketplaceDisplayField {
+  display_label?: string;
+}
+
+export interface MarketplaceDisplaySection {
+  pdp_fields?: MarketplaceDisplayField[];
+}
+
+export interface MarketplaceGeocode {
+  city?: string;
+  state?: string;
+  postal_code?: string;
+}
+
+export interface MarketplaceListingDetails {
+  location?: {
+    latitude?: number;
+    longitude?: number;
+    reverse_geocode_detailed?: MarketplaceGeocode;
+  };
+  home_address?: {
+    street?: string;
+  };
+  unit_room_info?: string;
+  redacted_description?: {
+    text?: string;
+  };
+  pdp_display_sections?: MarketplaceDisplaySection[];
+  listing_photos?: { image?: MarketplaceImage }[];
+}
+
+export interface MarketplaceListing {
+  id?: string;
+  marketplace_listing_title?: string;
+  custom_title?: string;
+  creation_time?: number;
+  listing_price?: {
+    amount?: string;
+  };
+  location?: {
+    reverse_geocode?: MarketplaceGeocode;
+  };
+  custom_sub_titles_with_rendering_flags?: { subtitle?: string }[];
+  primary_listing_photo?: {
+    image?: MarketplaceImage;
+  };
+  listing_title?: {
+    text?: string;
+  };
+  description?: string;
+  bedrooms?: number;
+  bathrooms?: number;
+  listing_details?: MarketplaceListingDetails;
+}
+
+// Every field of the payload the importer reads
+export const MARKETPLACE_FIELDS: SchemaField[] = [
+  { path: 'id', type: 'string', required: true },
+  { path: 'marketplace_listing_title', type: 'string' },
+  { path: 'custom_title', type: 'string' },
+  { path: 'creation_time', type: 'number' },
+  { path: 'listing_price', type: 'object', required: true },
+  { path: 'listing_price.amount', type: 'string', required: true },
+  { path: 'location', type: 'object' },
+  { path: 'location.reverse_geocode', type: 'object' },
+  { path: 'location.reverse_geocode.city', type: 'string' },
+  { path: 'location.reverse_geocode.state', type: 'string' },
+  { path: 'custom_sub_titles_with_rendering_flags', type: 'array' },
+  { path: 'custom_sub_titles_with_rendering_flags[].subtitle', type: 'string' },
+  { path: 'primary_listing_photo', type: 'object' },
+  { path: 'primary_listing_photo.image', type: 'object' },
+  { path: 'primary_listing_photo.image.uri', type: 'string' },
+  { path: 'listing_details', type: 'object' },
+  { path: 'listing_details.location', type: 'object' },
+  { path: 'listing_details.location.latitude', type: 'number' },
+  { path: 'listing_details.location.longitude', type: 'number' },
+  { path: 'listing_details.location.reverse_geocode_detailed', type: 'object' },
+  { path: 'listing_details.location.reverse_geocode_detailed.city', type: 'string' },
+  { path: 'listing_details.location.reverse_geocode_detailed.state', type: 'string' },
+  { path: 'listing_details.location.reverse_geocode_detailed.postal_code', type: 'string' },
+  { path: 'listing_details.home_address', type: 'object' },
+  { path: 'listing_details.home_address.street', type: 'string' },
+  { path: 'listing_details.unit_room_info', type: 'string' },
+  { path: 'listing_details.redacted_description', type: 'object' },
+  { path: 'listing_details.redacted_description.text', type: 'string' },
+  { path: 'listing_details.pdp_display_sections', type: 'array' },
+  { path: 'listing_details.pdp_display_sections[].pdp_fields', type: 'array' },
+  { path: 'listing_details.pdp_display_sections[].pdp_fields[].display_label', type: 'string' },
+  { path: 'listing_details.listing_photos', type: 'array' },
+  { path: 'listing_details.listing_photos[].image', type: 'object' },
+  { path: 'listing_details.listing_photos[].image.uri', type: 'string' }
+];
+
+/**
+ * Converts the listing's creation time to a date. Marketplace gives it in seconds since the epoch,
+ * but some scraper versions convert it to milliseconds.
+ */
+function parseCreationTime(creationTime: number | undefined): Date | undefined {
+  if (!creationTime) {
+    return undefined;
+  }
+  return new Date(creationTime < 1e12 ? creationTime * 1000 : creationTime);
+}
+
+/**
+ * Extracts the fields we store from a raw scraper record
+ * @param item A listing from the scraper output
+ * @param scrapedAt When the file was scraped, which relative dates are anchored to if the listing
+ * has no creation time
+ * @returns The parsed listing, or null if the listing has no ID
+ */
+export function parseListing(item: MarketplaceListing, scrapedAt: Date): ListingData | null {
+  const listedDate = parseCreationTime(item.creation_time);
+  // Parse price as cents to avoid floating point issues
+  let priceInCents = 0;
+  if (item.listing_price?.amount) {
+    // Parse as float first, then convert to cents as integer
+    const parsedPrice = parseFloat(item.listing_price.amount);
+    if (!isNaN(parsedPrice)) {
+      // Convert to cents by multiplying by 100 and rounding to avoid floating point errors
+      priceInCents = Math.round(parsedPrice * 100);
+    }
+  }
+  
+  // Extract location details
+  const city = item.location?.reverse_geocode?.city || 
+              item.listing_details?.location?.reverse_geocode_detailed?.city || 
+              '';
+  
+  const state = item.location?.reverse_geocode?.state || 
+               item.listing_details?.location?.reverse_geocode_detailed?.state || 
+               '';
+               
+  const postalCode = item.listing_details?.location?.reverse_geocode_detailed?.postal_code || '';
+  
+  // Extract street address
+  let streetAddress = '';
+  if (item.listing_details?.home_address?.street) {
+    streetAddress = item.listing_details.home_address.street;
+  } else if (item.custom_sub_titles_with_rendering_flags) {
+    // Sometimes address is in custom subtitles
+    for (const subtitle of item.custom_sub_titles_with_rendering_flags) {
+      if (subtitle.subtitle && !subtitle.subtitle.includes(city) && !subtitle.subtitle.includes(state)) {
+        streetAddress = subtitle.subtitle;
+        break;
+      }
+    }
+  }
+  
+  // Extract latitude and longitude
+  const latitude = item.listing_details?.location?.latitude || undefined;
+  const longitude = item.listing_details?.location?.longitude || undefined;
+  
+  // Extract bedroom and bathroom counts
+  let bedrooms = extractBedroomCount(item);
+  let bathrooms = extractBathroomCount(item);
+  
+  // Try to extract from unit_room_info if available
+  if (item.listing_details?.unit_room_info && !bedrooms && !bathrooms) {
+    const roomInfo = item.listing_details.unit_room_info;
+    const bedroomMatch = roomInfo.match(/(\d+)\s*bed/i);
+    const bathroomMatch = roomInfo.match(/(\d+(?:\.5)?)\s*bath/i);
+    
+    if (bedroomMatch) bedrooms = parseInt(bedroomMatch[1]);
+    if (bathroomMatch) bathrooms = parseFloat(bathroomMatch[1]);
+  }
+  
+  // Quebec listings give a room count instead, e.g. "4 1/2", and French ones say "2 chambres"
+  const title = item.marketplace_listing_title || item.custom_title || '';
+  const description = item.listing_details?.redacted_description?.text || '';
+  if (bedrooms === undefined) {
+    const frenchBedroomMatch = `${title}\n${description}`.match(/(\d+)\s*chambres?\s+(?:à\s+coucher|fermées?)\b|(\d+)\s*chambres\b/i);
+    bedrooms = parseQuebecRoomCount(title, detectLanguage(`${title}\n${description}`)) ??
+      parseQuebecRoomCount(description) ??
+      (frenchBedroomMatch ? parseInt(frenchBedroomMatch[1] || frenchBedroomMatch[2]) : undefined);
+  }
+  
+  // Pet friendly
+  let petFriendly = false;
+  if (item.listing_details?.pdp_display_sections) {
+    for (const section of item.listing_details.pdp_display_sections) {
+      if (section.pdp_fields) {
+        for (const field of section.pdp_fields) {
+          if (field.display_label && field.display_label.toLowerCase().includes('pet') ||
+              field.display_label && field.display_label.toLowerCase().includes('dog') ||
+              field.display_label && field.display_label.toLowerCase().includes('cat') ||
+              field.display_label && /animaux|chiens?\b|chats?\b/i.test(field.display_label)) {
+            petFriendly = true;
+            break;
+          }
+        }
+      }
+    }
+  }
+  
+  // Check description for pet friendly mentions
+  if (!petFriendly && item.listing_details?.redacted_description?.text) {
+    const descText = item.listing_details.redacted_description.text.toLowerCase();
+    if (descText.includes('pet friendly') || 
+        descText.includes('pets allowed') || 
+        descText.includes('pet-friendly') ||
+        descText.includes('dogs allowed') ||
+        descText.includes('cats allowed') ||
+        /animaux\s+(?:acceptés|admis|permis|bienvenus)|(?:chats?|chiens?)\s+(?:acceptés|admis|permis)/.test(descText)) {
+      petFriendly = true;
+    }
+  }
+  
+  // Available date, e.g. "Available now" or "Available 2025/07/01"; "now" means when the listing
+  // was posted, not when it's imported
+  const availabilityReference = listedDate || scrapedAt;
+  let availableDate: Date | undefined;
+  if (item.listing_details?.pdp_display_sections) {
+    for (const section of item.listing_details.pdp_display_sections) {
+      if (section.pdp_fields) {
+        for (const field of section.pdp_fields) {
+          if (field.display_label && /Available|Disponible/.test(field.display_label)) {
+            availableDate = parseAvailability(field.display_label, availabilityReference);
+            break;
+          }
+        }
+      }
+    }
+  }
+  
+  // Many listings only give availability in the title or description, e.g. "available July 1st"
+  if (!availableDate) {
+    availableDate = parseAvailability(`${title}\n${description}`, availabilityReference);
+  }
+  
+  // Extract amenities
+  const amenities: string[] = [];
+  if (item.listing_details?.pdp_display_sections) {
+    for (const section of item.listing_details.pdp_display_sections) {
+      if (section.pdp_fields) {
+        for (const field of section.pdp_fields) {
+          if (field.display_label && 
+              !field.display_label.includes('bed') && 
+              !field.display_label.includes('bath') &&
+              !field.display_label.includes('Available') &&
+              !/chambre|salle de bain|Disponible/i.test(field.display_label)) {
+            amenities.push(field.display_label);
+          }
+        }
+      }
+    }
+  }
+  
+  // Image URL
+  const imageUrl = item.primary_listing_photo?.image?.uri || 
+                   item.listing_details?.listing_photos?.[0]?.image?.uri || 
+                   '';
+  
+  // Extract data with proper fallbacks for missing fields
+  const listing: ListingData = {
+    id: item.id || '',
+    listingTitle: title,
+    price: priceInCents / 100,
+    city,
+    state,
+    postalCode,
+    streetAddress,
+    country: '',
+    imageUrl,
+    listingUrl: item.id ? `https://www.facebook.com/marketplace/item/${item.id}/` : '',
+    listedDate,
+    description,
+    latitude,
+    longitude,
+    bedrooms,
+    bathrooms,
+    amenities,
+    petFriendly,
+    availableDate
+  };
+  
+  // Skip listings without an ID
+  if (!listing.id) {
+    return null;
+  }
+  
+  return listing;
+}
+
+/**
+ * Extract bedroom count from listing data
+ */
+function extractBedroomCount(item: MarketplaceListing): number | undefined {
+  try {
+    // Check different possible places where bedroom info might be stored
+    if (item.listing_title?.text && item.listing_title.text.includes('bedroom')) {
+      const match = item.listing_title.text.match(/(\d+)\s*bedroom/i);
+      if (match) return parseInt(match[1]);
+    }
+    
+    if (item.description && item.description.includes('bedroom')) {
+      const match = item.description.match(/(\d+)\s*bedroom/i);
+      if (match) return parseInt(match[1]);
+    }
+    
+    // Try to find in structured data if available
+    return item.bedrooms || undefined;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+/**
+ * Extract bathroom count from listing data
+ */
+function extractBathroomCount(item: MarketplaceListing): number | undefined {
+  try {
+    // Check different possible places where bathroom info might be stored
+    if (item.listing_title?.text && item.listing_title.text.includes('bathroom')) {
+      const match = item.listing_title.text.match(/(\d+(?:\.5)?)\s*bathroom/i);
+      if (match) return parseFloat(match[1]);
+    }
+    
+    if (item.description && item.description.includes('bathroom')) {
+      const match = item.description.match(/(\d+(?:\.5)?)\s*bathroom/i);
+      if (match) return parseFloat(match[1]);
+    }
+    
+    // Try to find in structured data if available
+    return item.bathrooms || undefined;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+// Facebook Marketplace scraper output; any file not claimed by another source is treated as one
+export const facebookMarketplace: SourceAdapter<MarketplaceListing> = {
+  name: 'facebook',
+  fields: MARKETPLACE_FIELDS,
+  matchesFile: () => true,
+  parse: parseListing
+};
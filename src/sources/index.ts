@@ -0,0 +1,69 @@
+import { Prisma } from '@prisma/client';
+import { detectLanguage } from '../language';
+import { facebookMarketplace } from './facebook-marketplace';
+import { kijiji } from './kijiji';
+import { ListingData, SourceAdapter } from './types';
+
+export { ListingData, SchemaField, SourceAdapter } from './types';
+
+// Every supported source; the first adapter that matches a file is used, so the Facebook
+// adapter, which matches everything, comes last
+export const SOURCE_ADAPTERS: SourceAdapter[] = [kijiji, facebookMarketplace];
+
+/**
+ * Finds the adapter for a file under data/
+ * @param relativePath Path to the file, relative to data/
+ */
+export function getAdapterForFile(relativePath: string): SourceAdapter {
+  return SOURCE_ADAPTERS.find((adapter) => adapter.matchesFile(relativePath))!;
+}
+
+/**
+ * Builds the ID we store a listing under, so IDs from different sites can't collide
+ * @param source The source adapter's name
+ * @param sourceId The listing's ID on its source site
+ */
+export function namespaceListingId(source: string, sourceId: string): string {
+  return `${source}:${sourceId}`;
+}
+
+/**
+ * Converts parsed listing data into a database record
+ * @param source The source adapter's name
+ * @param listing The parsed listing
+ * @returns The database record for the listing
+ */
+export function toListingRecord(source: string, listing: ListingData): Prisma.ListingCreateInput {
+  // Prepare database record
+  const dbData: Prisma.ListingCreateInput = {
+    id: namespaceListingId(source, listing.id),
+    source,
+    sourceId: listing.id,
+    // Use string representation for price to avoid precision loss
+    price: (listing.price || 0).toFixed(2),
+    language: detectLanguage(`${listing.listingTitle || ''}\n${listing.description || ''}`)
+  };
+
+  // Add optional fields if they exist
+  if (listing.listingTitle) dbData.listingTitle = listing.listingTitle;
+  if (listing.city) dbData.city = listing.city;
+  if (listing.state) dbData.state = listing.state;
+  if (listing.postalCode) dbData.postalCode = listing.postalCode;
+  if (listing.streetAddress) dbData.streetAddress = listing.streetAddress;
+  if (listing.country) dbData.country = listing.country;
+  if (listing.description) dbData.description = listing.description;
+  if (listing.latitude) dbData.latitude = listing.latitude.toString();
+  if (listing.longitude) dbData.longitude = listing.longitude.toString();
+  if (listing.squareFeet) dbData.squareFeet = listing.squareFeet;
+  // Zero bedrooms is a studio, not a missing count
+  if (listing.bedrooms !== undefined) dbData.bedrooms = listing.bedrooms;
+  if (listing.bathrooms) dbData.bathrooms = listing.bathrooms;
+  if (listing.amenities && listing.amenities.length > 0) dbData.amenities = listing.amenities;
+  if (listing.petFriendly !== undefined) dbData.petFriendly = listing.petFriendly;
+  if (listing.availableDate) dbData.availableDate = listing.availableDate;
+  if (listing.imageUrl) dbData.imageUrl = listing.imageUrl;
+  if (listing.listingUrl) dbData.listingUrl = listing.listingUrl;
+  if (listing.listedDate) dbData.listedDate = listing.listedDate;
+
+  return dbData;
+}
@@ -0,0 +1,148 @@
+import { parseAvailability } from '../availability';
+import { ListingData, SchemaField, SourceAdapter } from './types';
+
+/*
+ * Types for Kijiji rental listings as exported by the Kijiji scraper: a JSON array of ads, one
+ * file per search, placed under data/kijiji/<city>:<search category>/. Ad attributes use
+ * Kijiji's own machine names (`numberbedrooms`, `petsallowed`, ...), and every value is a string.
+ */
+
+export interface KijijiAttributes {
+  numberbedrooms?: string;
+  // In tenths of a bathroom, e.g. `15` for 1.5 bathrooms
+  numberbathrooms?: string;
+  areainfeet?: string;
+  // `1` if pets are allowed, `0` if not
+  petsallowed?: string;
+  // ISO date, e.g. `2025-07-01T00:00:00Z`
+  dateavailable?: string;
+  [name: string]: string | undefined;
+}
+
+export interface KijijiListing {
+  id?: string;
+  url?: string;
+  title?: string;
+  description?: string;
+  price?: {
+    amount?: number;
+    // `MONTHLY` for rentals with a fixed monthly price
+    type?: string;
+  };
+  location?: {
+    address?: string;
+    city?: string;
+    province?: string;
+    postalCode?: string;
+    latitude?: number;
+    longitude?: number;
+  };
+  attributes?: KijijiAttributes;
+  images?: string[];
+  activationDate?: string;
+}
+
+// Every field of the export the adapter reads
+export const KIJIJI_FIELDS: SchemaField[] = [
+  { path: 'id', type: 'string', required: true },
+  { path: 'url', type: 'string' },
+  { path: 'title', type: 'string' },
+  { path: 'description', type: 'string' },
+  { path: 'price', type: 'object', required: true },
+  { path: 'price.amount', type: 'number', required: true },
+  { path: 'location', type: 'object' },
+  { path: 'location.address', type: 'string' },
+  { path: 'location.city', type: 'string' },
+  { path: 'location.province', type: 'string' },
+  { path: 'location.postalCode', type: 'string' },
+  { path: 'location.latitude', type: 'number' },
+  { path: 'location.longitude', type: 'number' },
+  { path: 'attributes', type: 'object' },
+  { path: 'attributes.numberbedrooms', type: 'string' },
+  { path: 'attributes.numberbathrooms', type: 'string' },
+  { path: 'attributes.areainfeet', type: 'string' },
+  { path: 'attributes.petsallowed', type: 'string' },
+  { path: 'attributes.dateavailable', type: 'string' },
+  { path: 'images', type: 'array' },
+  { path: 'activationDate', type: 'string' }
+];
+
+// Attributes that are already stored in their own fields rather than as amenities
+const PARSED_ATTRIBUTES = ['numberbedrooms', 'numberbathrooms', 'areainfeet', 'petsallowed', 'dateavailable'];
+
+/**
+ * Parses a numeric attribute, treating anything that isn't a positive number as missing
+ * @param allowZero Whether 0 is a real value, as for bedrooms, where Kijiji marks bachelor and
+ * studio units with 0
+ */
+function parseAttributeNumber(value: string | undefined, allowZero = false): number | undefined {
+  const parsed = value ? parseFloat(value) : NaN;
+  return !isNaN(parsed) && (parsed > 0 || (allowZero && parsed === 0)) ? parsed : undefined;
+}
+
+/**
+ * Parses a date, treating invalid dates as missing
+ */
+function parseDate(value: string | undefined): Date | undefined {
+  const date = value ? new Date(value) : undefined;
+  return date && !isNaN(date.getTime()) ? date : undefined;
+}
+
+/**
+ * Extracts the fields we store from a Kijiji ad
+ * @param item An ad from the Kijiji export
+ * @param scrapedAt When the file was scraped, which relative dates are anchored to if the ad has
+ * no activation date
+ * @returns The parsed listing, or null if the ad has no ID
+ */
+export function parseKijijiListing(item: KijijiListing, scrapedAt: Date): ListingData | null {
+  if (!item.id) {
+    return null;
+  }
+
+  const attributes = item.attributes || {};
+  const bedrooms = parseAttributeNumber(attributes.numberbedrooms, true);
+  const bathrooms = parseAttributeNumber(attributes.numberbathrooms, true);
+  const squareFeet = parseAttributeNumber(attributes.areainfeet);
+  const listedDate = parseDate(item.activationDate);
+
+  // Remaining yes/no attributes, e.g. `furnished` or `laundryinunit`, become amenities
+  const amenities = Object.entries(attributes)
+    .filter(([name, value]) => !PARSED_ATTRIBUTES.includes(name) && value === '1')
+    .map(([name]) => name);
+
+  return {
+    id: item.id,
+    listingTitle: item.title || '',
+    // Round to cents to avoid floating point issues
+    price: Math.round((item.price?.amount || 0) * 100) / 100,
+    city: item.location?.city || '',
+    state: item.location?.province || '',
+    postalCode: item.location?.postalCode || '',
+    streetAddress: item.location?.address || '',
+    country: 'CA',
+    imageUrl: item.images?.[0] || '',
+    listingUrl: item.url || '',
+    listedDate,
+    description: item.description || '',
+    latitude: item.location?.latitude,
+    longitude: item.location?.longitude,
+    squareFeet: squareFeet !== undefined ? Math.round(squareFeet) : undefined,
+    // "1.5" is a bedroom and a den, which is still one bedroom
+    bedrooms: bedrooms !== undefined ? Math.floor(bedrooms) : undefined,
+    // Kijiji counts bathrooms in tenths; we store them to the nearest half bath
+    bathrooms: bathrooms !== undefined ? Math.round(bathrooms / 5) / 2 : undefined,
+    amenities,
+    petFriendly: attributes.petsallowed !== undefined ? attributes.petsallowed === '1' : undefined,
+    // Not every ad fills in the date available field, but many say in the description
+    availableDate: parseDate(attributes.dateavailable) || parseAvailability(`${item.title || ''}\n${item.description || ''}`, listedDate || scrapedAt)
+  };
+}
+
+// Kijiji exports live under data/kijiji/
+export const kijiji: SourceAdapter<KijijiListing> = {
+  name: 'kijiji',
+  fields: KIJIJI_FIELDS,
+  matchesFile: (relativePath) => relativePath.split('/')[0] === 'kijiji',
+  parse: parseKijijiListing
+};
@@ -0,0 +1,46 @@
+// Interface for our parsed listing data, whatever site it came from
+export interface ListingData {
+  // The listing's ID on its source site
+  id: string;
+  listingTitle?: string;
+  price?: number;
+  city?: string;
+  state?: string;
+  postalCode?: string;
+  streetAddress?: string;
+  country?: string;
+  imageUrl?: string;
+  listingUrl?: string;
+  listedDate?: Date;
+  description?: string;
+  latitude?: number;
+  longitude?: number;
+  squareFeet?: number;
+  bedrooms?: number;
+  bathrooms?: number;
+  amenities?: string[];
+  petFriendly?: boolean;
+  availableDate?: Date;
+}
+
+// A field of a source's raw payload, as a dotted path where `[]` steps into every array element
+export interface SchemaField {
+  path: string;
+  type: 'string' | 'number' | 'boolean' | 'object' | 'array';
+  // Whether the import is meaningless without it
+  required?: boolean;
+}
+
+// Maps the raw records exported from one rental site to our listing data
+export interface SourceAdapter<T = any> {
+  // Stored in Listing.source and used to namespace listing IDs, e.g. `facebook`
+  name: string;
+  // Fields of the raw payload that the adapter reads, checked by the drift report
+  fields: SchemaField[];
+  // Whether a file belongs to this source, given its path relative to data/
+  matchesFile(relativePath: string): boolean;
+  // Extracts the listing from a raw record, or returns null if it has no ID. Relative dates such as
+  // "available now" are anchored to the listing's own creation time, or failing that to scrapedAt,
+  // when the file was scraped.
+  parse(record: T, scrapedAt: Date): ListingData | null;
+}
@@ -0,0 +1,79 @@
+/**
+ * Quantile of a sorted array, interpolating linearly between the closest values
+ * @param sorted Values in ascending order
+ * @param q The quantile, from 0 to 1
+ */
+export function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Median of a sorted array
+ */
+export function median(sorted: number[]): number {
+  return quantile(sorted, 0.5);
+}
+
+/**
+ * Arithmetic mean of an array
+ */
+export function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+// Added to the diagonal when solving for coefficients, so that a feature no observation has (or
+// one that duplicates another) gets a coefficient of zero instead of making the system singular
+const RIDGE = 1e-8;
+
+/**
+ * Fits an ordinary least squares regression by solving the normal equations
+ * @param rows The features of each observation; include a constant 1 for an intercept
+ * @param y The value each observation is fitted to
+ * @returns The coefficient of each feature and the share of variance explained
+ */
+export function fitLeastSquares(rows: number[][], y: number[]): { coefficients: number[]; rSquared: number } {
+  const size = rows[0].length;
+  // Augmented matrix [X'X | X'y]
+  const matrix = Array.from({ length: size }, () => new Array<number>(size + 1).fill(0));
+  rows.forEach((row, index) => {
+    for (let i = 0; i < size; i++) {
+      if (row[i] === 0) continue;
+      for (let j = 0; j < size; j++) matrix[i][j] += row[i] * row[j];
+      matrix[i][size] += row[i] * y[index];
+    }
+  });
+  for (let i = 0; i < size; i++) matrix[i][i] += RIDGE;
+
+  // Gaussian elimination with partial pivoting
+  for (let column = 0; column < size; column++) {
+    let pivot = column;
+    for (let row = column + 1; row < size; row++) {
+      if (Math.abs(matrix[row][column]) > Math.abs(matrix[pivot][column])) pivot = row;
+    }
+    [matrix[column], matrix[pivot]] = [matrix[pivot], matrix[column]];
+    for (let row = column + 1; row < size; row++) {
+      const factor = matrix[row][column] / matrix[column][column];
+      if (factor === 0) continue;
+      for (let j = column; j <= size; j++) matrix[row][j] -= factor * matrix[column][j];
+    }
+  }
+  const coefficients = new Array<number>(size).fill(0);
+  for (let row = size - 1; row >= 0; row--) {
+    let sum = matrix[row][size];
+    for (let j = row + 1; j < size; j++) sum -= matrix[row][j] * coefficients[j];
+    coefficients[row] = sum / matrix[row][row];
+  }
+
+  const average = mean(y);
+  let residualSum = 0;
+  let totalSum = 0;
+  rows.forEach((row, index) => {
+    const fitted = row.reduce((sum, value, j) => sum + value * coefficients[j], 0);
+    residualSum += (y[index] - fitted) ** 2;
+    totalSum += (y[index] - average) ** 2;
+  });
+  return { coefficients, rSquared: totalSum > 0 ? 1 - residualSum / totalSum : 0 };
+}
@@ -0,0 +1,101 @@
+// Number of words per shingle when comparing descriptions
+const SHINGLE_SIZE = 3;
+
+/**
+ * Normalizes listing text for comparison: lowercase, accents and punctuation removed,
+ * phone numbers and emails dropped, whitespace collapsed
+ * @param text The text to normalize
+ */
+export function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/\S+@\S+\.\S+/g, ' ')
+    .replace(/\+?\d[\d\s().-]{7,}\d/g, ' ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Splits normalized text into overlapping word shingles. Text shorter than a shingle becomes
+ * a single shingle.
+ * @param text Normalized text
+ */
+export function getShingles(text: string): Set<string> {
+  const words = text.split(' ').filter(Boolean);
+  const shingles = new Set<string>();
+  if (words.length === 0) {
+    return shingles;
+  }
+  if (words.length < SHINGLE_SIZE) {
+    shingles.add(words.join(' '));
+    return shingles;
+  }
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+    shingles.add(words.slice(i, i + SHINGLE_SIZE).join(' '));
+  }
+  return shingles;
+}
+
+/**
+ * Jaccard similarity of two sets: the size of their intersection over the size of their union
+ */
+export function jaccardSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) {
+    return 0;
+  }
+  const [smaller, larger] = a.size < b.size ? [a, b] : [b, a];
+  let intersection = 0;
+  for (const item of smaller) {
+    if (larger.has(item)) intersection++;
+  }
+  return intersection / (a.size + b.size - intersection);
+}
+
+/**
+ * 32-bit FNV-1a hash of a string
+ */
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Computes a MinHash signature of a set of shingles. Sets with a high Jaccard similarity are
+ * likely to agree on many positions of their signatures.
+ * @param shingles The shingles
+ * @param size Number of hash functions in the signature
+ */
+export function minHashSignature(shingles: Set<string>, size: number): number[] {
+  const signature = new Array<number>(size).fill(0xffffffff);
+  for (const shingle of shingles) {
+    const hash = hashString(shingle);
+    for (let i = 0; i < size; i++) {
+      // Cheap family of hash functions derived from a single hash
+      const value = (Math.imul(hash ^ (i * 0x9e3779b9), 0x85ebca6b) + Math.imul(i + 1, 0xc2b2ae35)) >>> 0;
+      if (value < signature[i]) signature[i] = value;
+    }
+  }
+  return signature;
+}
+
+/**
+ * Splits a MinHash signature into bands for locality-sensitive hashing. Two texts that share
+ * any band key are candidate near-duplicates.
+ * @param signature The MinHash signature
+ * @param rowsPerBand Signature positions per band
+ * @returns One key per band
+ */
+export function getBandKeys(signature: number[], rowsPerBand: number): string[] {
+  const keys: string[] = [];
+  for (let i = 0; i + rowsPerBand <= signature.length; i += rowsPerBand) {
+    keys.push(`${i / rowsPerBand}:${signature.slice(i, i + rowsPerBand).join(',')}`);
+  }
+  return keys;
+}
@@ -0,0 +1,159 @@
+import { PrismaClient } from '@prisma/client';
+import { getOption } from './cli';
+import { getStatsFilter } from './listing-filters';
+import { mean, median } from './statistics';
+
+// Initialize Prisma client
+const prisma = new PrismaClient();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Interface for the listing data time on market is measured from
+interface ListingForTiming {
+  id: string;
+  city: string | null;
+  ai_category_v1: string | null;
+  unitId: number | null;
+  listedDate: Date;
+  firstSeenAt: Date | null;
+  delistedAt: Date | null;
+  availableDate: Date | null;
+}
+
+// Time on market of one unit, from all the listings that advertised it
+interface UnitTiming {
+  city: string;
+  category: string;
+  // Null while the unit is still listed
+  daysOnMarket: number | null;
+  // Days from listing to availability; negative when it was already available when listed
+  leadDays: number | null;
+}
+
+/**
+ * When a listing went up: its posting date, unless that's later than when it was first scraped.
+ * Listings imported without a posting date default it to the import time, which is always later.
+ */
+function getListedAt(listing: ListingForTiming): Date {
+  return listing.firstSeenAt && listing.firstSeenAt < listing.listedDate ? listing.firstSeenAt : listing.listedDate;
+}
+
+/**
+ * Measures a unit's time on market from its listings. Reposts reset a listing's own clock, so a
+ * unit is on the market from its first listing going up until its last one comes down.
+ * @param listings The unit's listings, earliest first
+ */
+function getUnitTiming(listings: ListingForTiming[]): UnitTiming {
+  const [first] = listings;
+  const listedAt = Math.min(...listings.map((listing) => getListedAt(listing).getTime()));
+  const delistedAt = listings.every((listing) => listing.delistedAt)
+    ? Math.max(...listings.map((listing) => listing.delistedAt!.getTime()))
+    : null;
+
+  const withAvailability = listings.find((listing) => listing.availableDate);
+  return {
+    city: (first.city || 'unknown').trim(),
+    category: first.ai_category_v1 || 'uncategorized',
+    daysOnMarket: delistedAt !== null ? (delistedAt - listedAt) / DAY_MS : null,
+    leadDays: withAvailability
+      ? (withAvailability.availableDate!.getTime() - getListedAt(withAvailability).getTime()) / DAY_MS
+      : null
+  };
+}
+
+/**
+ * Formats a number of days, or a dash if there's nothing to summarize
+ */
+function formatDays(values: number[], summarize: (sorted: number[]) => number): string {
+  return values.length > 0 ? summarize(values).toFixed(1) : '-';
+}
+
+/**
+ * Reports days on market and lead time (days from listing to availability) by city and category.
+ * Reposted units, as grouped by `npm run dedupe`, count once. Only units that have come off the
+ * market count towards days on market; units still listed are counted separately.
+ */
+async function reportTimeOnMarket() {
+  const city = getOption('--city');
+  const listings: ListingForTiming[] = await prisma.listing.findMany({
+    where: getStatsFilter(city ? { city: { equals: city, mode: 'insensitive' } } : {}),
+    select: {
+      id: true,
+      city: true,
+      ai_category_v1: true,
+      unitId: true,
+      listedDate: true,
+      firstSeenAt: true,
+      delistedAt: true,
+      availableDate: true
+    },
+    orderBy: [{ firstSeenAt: 'asc' }, { id: 'asc' }]
+  });
+
+  const units = new Map<string, ListingForTiming[]>();
+  for (const listing of listings) {
+    const key = listing.unitId !== null ? `unit:${listing.unitId}` : `listing:${listing.id}`;
+    const unitListings = units.get(key);
+    if (unitListings) unitListings.push(listing);
+    else units.set(key, [listing]);
+  }
+
+  // Cities are grouped case-insensitively, as in the rent report, and shown as first seen
+  const groups = new Map<string, UnitTiming[]>();
+  const cityNames = new Map<string, string>();
+  for (const unitListings of units.values()) {
+    const timing = getUnitTiming(unitListings);
+    const cityKey = timing.city.toLowerCase();
+    if (!cityNames.has(cityKey)) cityNames.set(cityKey, timing.city);
+    const key = `${cityKey}|${timing.category}`;
+    const group = groups.get(key);
+    if (group) group.push(timing);
+    else groups.set(key, [timing]);
+  }
+
+  const header = [
+    'city'.padEnd(16), 'category'.padEnd(18), 'units'.padStart(6), 'listed'.padStart(7),
+    'median DOM'.padStart(11), 'mean DOM'.padStart(9), 'median lead'.padStart(12), 'available now'.padStart(14)
+  ].join(' ');
+  console.log(header);
+  console.log('-'.repeat(header.length));
+
+  const sortedKeys = Array.from(groups.keys()).sort();
+  for (const key of sortedKeys) {
+    const timings = groups.get(key)!;
+    const [cityKey, category] = key.split('|');
+    const groupCity = cityNames.get(cityKey)!;
+    const daysOnMarket = timings.map((timing) => timing.daysOnMarket).filter((days): days is number => days !== null).sort((a, b) => a - b);
+    const leadDays = timings.map((timing) => timing.leadDays).filter((days): days is number => days !== null).sort((a, b) => a - b);
+    // Available within a day of being listed
+    const availableNow = leadDays.filter((days) => days <= 1).length;
+
+    console.log([
+      groupCity.substring(0, 16).padEnd(16),
+      category.padEnd(18),
+      String(timings.length).padStart(6),
+      String(timings.length - daysOnMarket.length).padStart(7),
+      formatDays(daysOnMarket, median).padStart(11),
+      formatDays(daysOnMarket, mean).padStart(9),
+      formatDays(leadDays, median).padStart(12),
+      (leadDays.length > 0 ? `${Math.round((availableNow / leadDays.length) * 100)}%` : '-').padStart(14)
+    ].join(' '));
+  }
+
+  const allTimings = Array.from(groups.values()).flat();
+  console.log(`\n===== TIME ON MARKET COMPLETE =====`);
+  console.log(`Listings: ${listings.length}`);
+  console.log(`Units: ${allTimings.length}`);
+  console.log(`Units still listed: ${allTimings.filter((timing) => timing.daysOnMarket === null).length}`);
+  console.log(`Units with an availability date: ${allTimings.filter((timing) => timing.leadDays !== null).length}`);
+}
+
+if (require.main === module) {
+  reportTimeOnMarket()
+    .then(() => prisma.$disconnect())
+    .catch((error) => {
+      console.error('Time on market report failed:', error);
+      prisma.$disconnect();
+      process.exit(1);
+    });
+}
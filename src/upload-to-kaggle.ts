@@ -1,96 +1,196 @@
-import { execSync } from 'child_process';
-import { existsSync, writeFileSync, readFileSync } from 'fs';
-import { join } from 'path';
-
-// Check if Kaggle credentials exist
-const kaggleConfigPath = join(process.env.HOME || process.env.USERPROFILE || '', '.kaggle', 'kaggle.json');
-
-if (!existsSync(kaggleConfigPath)) {
-  console.error('Error: Kaggle credentials not found!');
-  console.error('\nTo set up Kaggle:');
-  console.error('1. Go to https://www.kaggle.com/account');
-  console.error('2. Scroll to "API" section and click "Create New API Token"');
-  console.error('3. This will download kaggle.json to your Downloads folder');
-  console.error('4. Move it to ~/.kaggle/kaggle.json');
-  console.error('5. Run: chmod 600 ~/.kaggle/kaggle.json');
-  process.exit(1);
-}
+import { execFileSync } from 'child_process';
+import { existsSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { getOption, hasFlag } from './cli';
+import { hashFile } from './import-manifest';
+import { ReleaseManifest, RELEASES_DIR } from './release-manifest';
 
-// Read username from kaggle.json for dataset ID
-const kaggleConfig = JSON.parse(readFileSync(kaggleConfigPath, 'utf8'));
-const KAGGLE_USERNAME = kaggleConfig.username;
 const DATASET_SLUG = 'better-rental-data';
 
-function createOrUpdateDatasetMetadata() {
-  const metadataPath = join('data', 'dataset-metadata.json');
-  
-  if (!existsSync(metadataPath)) {
-    // Create initial metadata
-    const metadata = {
-      title: "Better Rental Data - Canadian Market Rates",
-      id: `${KAGGLE_USERNAME}/${DATASET_SLUG}`,
-      licenses: [{ name: "CC0-1.0" }],
-      description: "Market-rate rental data from Canadian cities, scraped from Facebook Marketplace. Updated regularly with new listings and price changes.",
-      keywords: ["real estate", "housing", "canada", "rentals", "apartments", "market data"]
-    };
-    
-    writeFileSync(metadataPath, JSON.stringify(metadata, null, 2));
-    console.log('✓ Created dataset metadata');
-    return true; // New dataset
+// Stands in for the Kaggle username in dry runs, which don't need credentials
+const DRY_RUN_USERNAME = '<kaggle-username>';
+
+// Kaggle's names for the column types in the manifest
+const KAGGLE_FIELD_TYPES: Record<string, string> = {
+  string: 'string',
+  integer: 'integer',
+  number: 'number',
+  boolean: 'boolean',
+  datetime: 'datetime'
+};
+
+/**
+ * Reads the Kaggle username from ~/.kaggle/kaggle.json, exiting with setup instructions if the
+ * credentials aren't there
+ */
+function getKaggleUsername(): string {
+  const kaggleConfigPath = join(process.env.HOME || process.env.USERPROFILE || '', '.kaggle', 'kaggle.json');
+
+  if (!existsSync(kaggleConfigPath)) {
+    console.error('Error: Kaggle credentials not found!');
+    console.error('\nTo set up Kaggle:');
+    console.error('1. Go to https://www.kaggle.com/account');
+    console.error('2. Scroll to "API" section and click "Create New API Token"');
+    console.error('3. This will download kaggle.json to your Downloads folder');
+    console.error('4. Move it to ~/.kaggle/kaggle.json');
+    console.error('5. Run: chmod 600 ~/.kaggle/kaggle.json');
+    process.exit(1);
   }
-  
-  return false; // Existing dataset
+
+  return JSON.parse(readFileSync(kaggleConfigPath, 'utf8')).username;
 }
 
-async function uploadToKaggle() {
-  try {
-    const isNewDataset = createOrUpdateDatasetMetadata();
-    
-    // Change to data directory for Kaggle CLI
-    process.chdir('data');
-    
-    if (isNewDataset) {
-      // Create new dataset
-      console.log('Creating new Kaggle dataset...');
-      execSync('kaggle datasets create -p . --dir-mode zip', { stdio: 'inherit' });
-      console.log(`✓ Dataset created: https://www.kaggle.com/datasets/${KAGGLE_USERNAME}/${DATASET_SLUG}`);
-    } else {
-      // Update existing dataset
-      const versionNotes = `Updated: ${new Date().toISOString().split('T')[0]} - New listings and price updates`;
-      console.log('Updating existing Kaggle dataset...');
-      execSync(`kaggle datasets version -p . -m "${versionNotes}" --dir-mode zip`, { stdio: 'inherit' });
-      console.log(`✓ Dataset updated: https://www.kaggle.com/datasets/${KAGGLE_USERNAME}/${DATASET_SLUG}`);
+/**
+ * Finds the release to publish: the one given by --release, or else the latest in release/
+ */
+function getReleaseDirectory(): string {
+  const release = getOption('--release');
+  if (release) {
+    return existsSync(release) ? resolve(release) : join(RELEASES_DIR, release);
+  }
+
+  const versions = existsSync(RELEASES_DIR)
+    ? readdirSync(RELEASES_DIR).filter((name) => existsSync(join(RELEASES_DIR, name, 'manifest.json'))).sort()
+    : [];
+  if (versions.length === 0) {
+    throw new Error(`No releases found in ${RELEASES_DIR}. Run npm run export first`);
+  }
+  return join(RELEASES_DIR, versions[versions.length - 1]);
+}
+
+/**
+ * Checks every file in the manifest is present and unchanged since it was exported, and that the
+ * release was redacted with nothing left behind
+ */
+async function verifyRelease(directory: string, manifest: ReleaseManifest) {
+  if (!manifest.redaction) {
+    throw new Error(`Release ${manifest.version} has no redaction report; re-run npm run export`);
+  }
+  const reportPath = join(directory, manifest.redaction.path);
+  if (!existsSync(reportPath) || (await hashFile(reportPath)) !== manifest.redaction.sha256) {
+    throw new Error(`${manifest.redaction.path} is missing or doesn't match its checksum in the manifest; re-run npm run export`);
+  }
+  if (manifest.redaction.residual > 0) {
+    throw new Error(`${manifest.redaction.residual} detections were left after redaction; see ${manifest.redaction.path}. Refusing to publish`);
+  }
+  console.log('✓ Verified the redaction report');
+
+  for (const file of manifest.files) {
+    const filePath = join(directory, file.path);
+    if (!existsSync(filePath)) {
+      throw new Error(`${file.path} is listed in the manifest but missing from ${directory}`);
+    }
+    if ((await hashFile(filePath)) !== file.sha256) {
+      throw new Error(`${file.path} doesn't match its checksum in the manifest; re-run npm run export`);
     }
-    
-    // Return to original directory
-    process.chdir('..');
-    
-  } catch (error) {
-    console.error('Error uploading to Kaggle:', error);
-    process.exit(1);
   }
+  console.log(`✓ Verified ${manifest.files.length} files against the manifest`);
 }
 
-// Add summary of what will be uploaded
-function showUploadSummary() {
-  console.log('\n📊 Upload Summary:');
-  console.log(`   Kaggle username: ${KAGGLE_USERNAME}`);
-  console.log(`   Dataset: ${KAGGLE_USERNAME}/${DATASET_SLUG}`);
-  
+/**
+ * Builds Kaggle's dataset-metadata.json from the release manifest, describing each file and its
+ * columns so they show up on the dataset page
+ */
+function buildDatasetMetadata(username: string, manifest: ReleaseManifest) {
+  const tables = new Map(manifest.tables.map((table) => [table.name, table]));
+  return {
+    title: 'Better Rental Data - Canadian Market Rates',
+    id: `${username}/${DATASET_SLUG}`,
+    licenses: [{ name: 'CC0-1.0' }],
+    subtitle: 'Cleaned rental listings, price history and categories from Canadian cities',
+    description: [
+      'Market-rate rental data from Canadian cities, scraped from Facebook Marketplace and Kijiji. Updated regularly with new listings and price changes.',
+      '',
+      `Release ${manifest.version}, created ${manifest.createdAt}. Each table is provided as CSV and Parquet; see data-dictionary.md for every column. Phone numbers, email addresses, names and civic and unit numbers are masked in listing text and coordinates are coarsened; redaction-report.md has the counts.`,
+      '',
+      ...manifest.files
+        .filter((file) => file.format === 'csv')
+        .map((file) => `- **${file.table}**: ${tables.get(file.table)?.description} (${file.rows} rows)`)
+    ].join('\n'),
+    keywords: ['real estate', 'housing', 'canada', 'rentals', 'apartments', 'market data'],
+    resources: manifest.files.map((file) => ({
+      path: file.path,
+      description: `${tables.get(file.table)?.description}. ${file.rows} rows, sha256 ${file.sha256}`,
+      schema: {
+        fields: (tables.get(file.table)?.columns ?? []).map((column) => ({
+          name: column.name,
+          description: column.description,
+          type: KAGGLE_FIELD_TYPES[column.type]
+        }))
+      }
+    }))
+  };
+}
+
+/**
+ * Checks whether the dataset has been created on Kaggle yet
+ */
+function datasetExists(datasetId: string): boolean {
   try {
-    const files = execSync('find data -name "*.json" -type f | grep -v metadata | wc -l', { encoding: 'utf8' });
-    console.log(`   JSON files: ${files.trim()}`);
-    
-    const size = execSync('du -sh data | cut -f1', { encoding: 'utf8' });
-    console.log(`   Total size: ${size.trim()}`);
-    
-    console.log('\n');
-  } catch (error) {
-    // Ignore errors in summary
+    execFileSync('kaggle', ['datasets', 'status', datasetId], { stdio: 'ignore' });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Publishes a release from `npm run export` to Kaggle: verifies its files against the manifest,
+ * writes dataset-metadata.json next to them, and creates the dataset or adds a new version of it.
+ * With --dry-run, prints what would be uploaded without needing credentials or uploading anything.
+ */
+async function uploadToKaggle() {
+  const dryRun = hasFlag('--dry-run');
+  const directory = getReleaseDirectory();
+  const manifestPath = join(directory, 'manifest.json');
+  if (!existsSync(manifestPath)) {
+    throw new Error(`No manifest.json in ${directory}. Run npm run export first`);
+  }
+  const manifest: ReleaseManifest = JSON.parse(readFileSync(manifestPath, 'utf8'));
+
+  const username = dryRun ? DRY_RUN_USERNAME : getKaggleUsername();
+  const datasetId = `${username}/${DATASET_SLUG}`;
+
+  console.log('\n📊 Upload Summary:');
+  console.log(`   Dataset: ${datasetId}`);
+  console.log(`   Release: ${manifest.version} (${directory})`);
+  for (const file of manifest.files) {
+    console.log(`   ${file.path.padEnd(24)} ${String(file.rows).padStart(9)} rows ${String(file.bytes).padStart(12)} bytes`);
+  }
+  console.log('');
+
+  await verifyRelease(directory, manifest);
+
+  const metadata = buildDatasetMetadata(username, manifest);
+  if (dryRun) {
+    console.log('\nDataset metadata that would be uploaded:');
+    console.log(JSON.stringify(metadata, null, 2));
+    console.log('\n✓ Dry run: nothing was uploaded');
+    return;
+  }
+
+  writeFileSync(join(directory, 'dataset-metadata.json'), JSON.stringify(metadata, null, 2));
+  console.log('✓ Wrote dataset metadata');
+
+  if (!datasetExists(datasetId)) {
+    console.log('Creating new Kaggle dataset...');
+    execFileSync('kaggle', ['datasets', 'create', '-p', directory], { stdio: 'inherit' });
+    console.log(`✓ Dataset created: https://www.kaggle.com/datasets/${datasetId}`);
+  } else {
+    const tableRows = manifest.files
+      .filter((file) => file.format === 'csv')
+      .map((file) => `${file.table} ${file.rows}`)
+      .join(', ');
+    const versionNotes = `Release ${manifest.version}: ${tableRows} rows`;
+    console.log('Updating existing Kaggle dataset...');
+    execFileSync('kaggle', ['datasets', 'version', '-p', directory, '-m', versionNotes], { stdio: 'inherit' });
+    console.log(`✓ Dataset updated: https://www.kaggle.com/datasets/${datasetId}`);
   }
 }
 
 if (require.main === module) {
-  showUploadSummary();
-  uploadToKaggle();
-} 
\ No newline at end of file
+  uploadToKaggle().catch((error) => {
+    console.error('Error uploading to Kaggle:', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,62 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { UTILITIES } from './attribute-extraction';
+
+// Default location of the utility cost model
+export const DEFAULT_UTILITY_COSTS_PATH = path.join(__dirname, '..', 'config', 'utility-costs.json');
+
+// Estimated monthly cost of each utility, e.g. { heat: 140, electricity: 90, water: 45, internet: 80 }
+export type UtilityCosts = Record<string, number>;
+
+// Utility costs for every city, with a fallback for cities not listed
+export interface UtilityCostModel {
+  default: UtilityCosts;
+  // Keyed by lowercase city name; utilities a city leaves out fall back to the default
+  cities: Record<string, UtilityCosts>;
+}
+
+/**
+ * Reads and checks the utility cost model
+ * @param filePath Path to the JSON config file
+ * @throws If the file is missing, isn't valid JSON, or has a cost that isn't a non-negative number
+ */
+export function loadUtilityCosts(filePath: string = DEFAULT_UTILITY_COSTS_PATH): UtilityCostModel {
+  const config = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as Partial<UtilityCostModel>;
+  const model: UtilityCostModel = { default: config.default || {}, cities: {} };
+
+  const check = (costs: UtilityCosts, where: string) => {
+    for (const [utility, cost] of Object.entries(costs)) {
+      if (!UTILITIES.includes(utility)) {
+        throw new Error(`Unknown utility "${utility}" in ${where} of ${filePath}. Valid utilities are: ${UTILITIES.join(', ')}`);
+      }
+      if (typeof cost !== 'number' || cost < 0) {
+        throw new Error(`Cost of ${utility} in ${where} of ${filePath} must be a non-negative number`);
+      }
+    }
+  };
+
+  check(model.default, 'default');
+  for (const [city, costs] of Object.entries(config.cities || {})) {
+    check(costs, `cities.${city}`);
+    model.cities[city.toLowerCase()] = costs;
+  }
+  for (const utility of UTILITIES) {
+    if (model.default[utility] === undefined) {
+      throw new Error(`${filePath} has no default cost for ${utility}`);
+    }
+  }
+  return model;
+}
+
+/**
+ * Estimates what a tenant pays per month on top of rent for the utilities that aren't included
+ * @param model The utility cost model
+ * @param city The listing's city
+ * @param utilitiesIncluded Utilities included in the rent
+ */
+export function getExtraUtilityCost(model: UtilityCostModel, city: string | null, utilitiesIncluded: string[]): number {
+  const cityCosts = model.cities[(city || '').trim().toLowerCase()] || {};
+  return UTILITIES
+    .filter((utility) => !utilitiesIncluded.includes(utility))
+    .reduce((total, utility) => total + (cityCosts[utility] ?? model.default[utility]), 0);
+}
@@ -0,0 +1,312 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { getOption, globToRegExp } from './cli';
+import { streamJsonArray } from './json-stream';
+import { findJsonFiles, getScrapeTimestamp } from './scrape-runs';
+import { getAdapterForFile, SchemaField, SourceAdapter } from './sources';
+
+// Listing fields the source adapters extract, checked for how often they come back empty
+const EXTRACTED_FIELDS = [
+  'price',
+  'listingTitle',
+  'description',
+  'city',
+  'state',
+  'postalCode',
+  'streetAddress',
+  'latitude',
+  'longitude',
+  'bedrooms',
+  'bathrooms',
+  'squareFeet',
+  'amenities',
+  'petFriendly',
+  'availableDate',
+  'imageUrl',
+  'listedDate'
+];
+
+// Presence of one schema field across the listings in a file
+interface FieldPresence {
+  path: string;
+  required: boolean;
+  presentPercent: number;
+  // Listings where the field was present but had the wrong type
+  wrongType: number;
+}
+
+// Report of how a scraper output file differs from the schema we expect
+export interface DriftReport {
+  file: string;
+  source: string;
+  listingCount: number;
+  invalidListings: number;
+  fields: FieldPresence[];
+  // Schema fields that no listing in the file had (not repeating the children of missing fields)
+  missingFields: string[];
+  missingRequiredFields: string[];
+  // Fields with the wrong type in at least one listing
+  wrongTypeFields: string[];
+  // Unknown keys that might be the new name of a missing field
+  possibleRenames: { path: string; candidates: string[] }[];
+  // Percentage of listings where each extracted field came back empty
+  extractedNullPercent: Record<string, number>;
+}
+
+/**
+ * Collects the values at a schema path, stepping into every element for `[]`
+ * @param value The object to read from
+ * @param fieldPath Dotted path, e.g. `listing_details.pdp_display_sections[].pdp_fields`
+ */
+function getValuesAtPath(value: any, fieldPath: string): any[] {
+  let values = [value];
+  for (const segment of fieldPath.split('.')) {
+    const isArray = segment.endsWith('[]');
+    const key = isArray ? segment.slice(0, -2) : segment;
+    const next: any[] = [];
+    for (const current of values) {
+      const child = current !== null && typeof current === 'object' ? current[key] : undefined;
+      if (isArray) {
+        if (Array.isArray(child)) next.push(...child);
+      } else if (child !== undefined) {
+        next.push(child);
+      }
+    }
+    values = next;
+  }
+  return values;
+}
+
+/**
+ * Checks a value against the type a schema field expects
+ */
+function hasExpectedType(value: any, type: SchemaField['type']): boolean {
+  if (type === 'array') return Array.isArray(value);
+  if (type === 'object') return typeof value === 'object' && !Array.isArray(value);
+  return typeof value === type;
+}
+
+/**
+ * Splits a path into its parent path and the key it ends in
+ */
+function splitFieldPath(fieldPath: string): { parent: string; key: string } {
+  const index = fieldPath.lastIndexOf('.');
+  return index === -1
+    ? { parent: '', key: fieldPath }
+    : { parent: fieldPath.substring(0, index), key: fieldPath.substring(index + 1) };
+}
+
+/**
+ * Streams a scraper output file and compares every listing against the schema its source expects
+ * @param filePath Path to the JSON file
+ * @param adapter The source adapter for the file
+ * @returns The drift report for the file
+ */
+export async function validateFile(filePath: string, adapter: SourceAdapter): Promise<DriftReport> {
+  const presentCounts = new Map<string, number>();
+  const wrongTypeCounts = new Map<string, number>();
+  const nullCounts = new Map<string, number>(EXTRACTED_FIELDS.map((field) => [field, 0]));
+
+  // Keys each parent object is expected to have, and the keys actually seen on it
+  const knownKeys = new Map<string, Set<string>>();
+  for (const field of adapter.fields) {
+    const { parent, key } = splitFieldPath(field.path);
+    if (!knownKeys.has(parent)) knownKeys.set(parent, new Set());
+    knownKeys.get(parent)!.add(key.replace('[]', ''));
+  }
+  const unknownKeys = new Map<string, Map<string, number>>();
+  // Dates are parsed as the importer would, relative to the scrape time
+  const scrapedAt = await getScrapeTimestamp(filePath);
+
+  let listingCount = 0;
+  let invalidListings = 0;
+
+  for await (const item of streamJsonArray(filePath)) {
+    listingCount++;
+
+    if (item === null || typeof item !== 'object' || Array.isArray(item)) {
+      invalidListings++;
+      continue;
+    }
+
+    for (const field of adapter.fields) {
+      const values = getValuesAtPath(item, field.path).filter((value) => value !== null);
+      if (values.length > 0) {
+        presentCounts.set(field.path, (presentCounts.get(field.path) || 0) + 1);
+        if (!values.every((value) => hasExpectedType(value, field.type))) {
+          wrongTypeCounts.set(field.path, (wrongTypeCounts.get(field.path) || 0) + 1);
+        }
+      }
+    }
+
+    for (const [parent, keys] of knownKeys) {
+      const objects = parent ? getValuesAtPath(item, parent) : [item];
+      const seen = new Set<string>();
+      for (const object of objects) {
+        if (object === null || typeof object !== 'object' || Array.isArray(object)) continue;
+        for (const key of Object.keys(object)) {
+          if (!keys.has(key)) seen.add(key);
+        }
+      }
+      if (!unknownKeys.has(parent)) unknownKeys.set(parent, new Map());
+      for (const key of seen) {
+        unknownKeys.get(parent)!.set(key, (unknownKeys.get(parent)!.get(key) || 0) + 1);
+      }
+    }
+
+    let parsed: Record<string, any> | null = null;
+    try {
+      parsed = adapter.parse(item, scrapedAt);
+    } catch (error) {
+      // Counted as empty for every field below
+    }
+    for (const field of EXTRACTED_FIELDS) {
+      const value = parsed?.[field];
+      const isEmpty = value === undefined || value === null || value === '' ||
+        (Array.isArray(value) && value.length === 0) ||
+        (field === 'price' && value === 0);
+      if (isEmpty) nullCounts.set(field, nullCounts.get(field)! + 1);
+    }
+  }
+
+  const toPercent = (count: number) =>
+    listingCount > 0 ? Math.round((count / listingCount) * 1000) / 10 : 0;
+
+  const fields: FieldPresence[] = adapter.fields.map((field) => ({
+    path: field.path,
+    required: !!field.required,
+    presentPercent: toPercent(presentCounts.get(field.path) || 0),
+    wrongType: wrongTypeCounts.get(field.path) || 0
+  }));
+
+  // Fields no listing had, leaving out the children of fields that are missing themselves
+  const absent = new Set(fields.filter((field) => field.presentPercent === 0).map((field) => field.path));
+  const missing = listingCount > 0
+    ? fields.filter((field) => absent.has(field.path) && !absent.has(splitFieldPath(field.path).parent.replace(/\[\]$/, '')))
+    : [];
+
+  // An unknown key on the same parent that shares a word with the missing key is a likely rename,
+  // e.g. `redacted_description` becoming `description_text`
+  const possibleRenames = missing
+    .map((field) => {
+      const { parent, key } = splitFieldPath(field.path);
+      const words = key.replace('[]', '').split('_');
+      const candidates = Array.from(unknownKeys.get(parent)?.keys() || [])
+        .filter((candidate) => candidate.split('_').some((word) => words.includes(word)))
+        .map((candidate) => (parent ? `${parent}.${candidate}` : candidate));
+      return { path: field.path, candidates };
+    })
+    .filter((rename) => rename.candidates.length > 0);
+
+  return {
+    file: filePath,
+    source: adapter.name,
+    listingCount,
+    invalidListings,
+    fields,
+    missingFields: missing.map((field) => field.path),
+    missingRequiredFields: missing.filter((field) => field.required).map((field) => field.path),
+    wrongTypeFields: fields.filter((field) => field.wrongType > 0).map((field) => field.path),
+    possibleRenames,
+    extractedNullPercent: Object.fromEntries(
+      EXTRACTED_FIELDS.map((field) => [field, toPercent(nullCounts.get(field)!)])
+    )
+  };
+}
+
+/**
+ * Whether a drift report points at a change in the scraper output. Optional fields are often
+ * absent from a whole file, so they only count when they look renamed.
+ */
+export function hasDrift(report: DriftReport): boolean {
+  return report.missingRequiredFields.length > 0 ||
+    report.possibleRenames.length > 0 ||
+    report.wrongTypeFields.length > 0 ||
+    report.invalidListings > 0;
+}
+
+/**
+ * Formats the notable parts of a drift report for the console
+ */
+export function formatDriftSummary(report: DriftReport): string {
+  const lines: string[] = [];
+
+  if (report.invalidListings > 0) {
+    lines.push(`  - ${report.invalidListings} entries are not listing objects`);
+  }
+  for (const field of report.missingFields) {
+    const rename = report.possibleRenames.find((candidate) => candidate.path === field);
+    const required = report.missingRequiredFields.includes(field) ? ' (required)' : '';
+    lines.push(`  - Missing field${required}: ${field}${rename ? ` (renamed to ${rename.candidates.join(' or ')}?)` : ''}`);
+  }
+  for (const field of report.wrongTypeFields) {
+    lines.push(`  - Unexpected type: ${field}`);
+  }
+
+  const emptyFields = Object.entries(report.extractedNullPercent)
+    .map(([field, percent]) => `${field} ${percent}%`)
+    .join(', ');
+  lines.push(`  - Empty after extraction: ${emptyFields}`);
+
+  return lines.join('\n');
+}
+
+/**
+ * Saves a drift report as JSON under the reports directory, mirroring the file's path under data/
+ * @param report The drift report
+ * @param dataDir The data directory the file was found in
+ * @returns Path to the saved report
+ */
+export async function writeDriftReport(report: DriftReport, dataDir: string): Promise<string> {
+  const relativePath = path.relative(dataDir, report.file);
+  const reportPath = path.resolve(__dirname, '../reports/drift', relativePath);
+  await fs.promises.mkdir(path.dirname(reportPath), { recursive: true });
+  await fs.promises.writeFile(reportPath, JSON.stringify({ ...report, file: relativePath }, null, 2));
+  return reportPath;
+}
+
+/**
+ * Validates every JSON file in the data directory, or those matching `--only <glob>`
+ */
+async function validateAllFiles() {
+  const dataDir = path.resolve(__dirname, '../data');
+  let jsonFiles = await findJsonFiles(dataDir);
+
+  const onlyGlob = getOption('--only');
+  if (onlyGlob) {
+    const pattern = globToRegExp(onlyGlob);
+    jsonFiles = jsonFiles.filter((filePath) =>
+      pattern.test(path.relative(dataDir, filePath).split(path.sep).join('/'))
+    );
+  }
+
+  console.log(`Validating ${jsonFiles.length} JSON files in ${dataDir}...`);
+
+  let filesWithDrift = 0;
+  for (const filePath of jsonFiles) {
+    try {
+      const relativePath = path.relative(dataDir, filePath).split(path.sep).join('/');
+      const report = await validateFile(filePath, getAdapterForFile(relativePath));
+      const reportPath = await writeDriftReport(report, dataDir);
+      if (hasDrift(report)) filesWithDrift++;
+
+      console.log(`\n${path.relative(dataDir, filePath)}: ${report.listingCount} listings${hasDrift(report) ? ', DRIFT DETECTED' : ''}`);
+      console.log(formatDriftSummary(report));
+      console.log(`  - Report: ${reportPath}`);
+    } catch (error) {
+      filesWithDrift++;
+      console.error(`\nError validating ${filePath}:`, error);
+    }
+  }
+
+  console.log(`\n===== VALIDATION COMPLETE =====
+- Files validated: ${jsonFiles.length}
+- Files with drift: ${filesWithDrift}`);
+}
+
+if (require.main === module) {
+  validateAllFiles().catch((error) => {
+    console.error('Validation failed:', error);
+    process.exit(1);
+  });
+}